@@ -11,10 +11,20 @@ function App() {
   const {
     sequences,
     settings,
+    encodableFormats,
     isConverting,
+    concurrency,
+    setConcurrency,
+    previewFps,
+    setPreviewFps,
     addFiles,
+    setImageFraming,
+    setSequenceOverride,
+    setImageOverride,
+    prioritizeImage,
     downloadSingle,
     downloadSequence,
+    downloadAnimated,
     downloadAll,
     clear,
     updateSettings
@@ -64,6 +74,9 @@ function App() {
               <SettingsPanel
                 settings={settings}
                 onChange={updateSettings}
+                concurrency={concurrency}
+                onConcurrencyChange={setConcurrency}
+                encodableFormats={encodableFormats}
                 disabled={isConverting}
               />
             </div>
@@ -73,14 +86,30 @@ function App() {
           <ImageList
             sequences={sequences}
             onDownloadSequence={downloadSequence}
+            onDownloadAnimated={downloadAnimated}
+            animationFps={previewFps}
             onDownloadSingle={downloadSingle}
             onDownloadAll={downloadAll}
             onClear={clear}
+            srcsetSizes={settings.responsive.sizes}
+            fileNameTemplate={settings.fileNameTemplate}
+            settings={settings}
+            encodableFormats={encodableFormats}
+            onOverrideSequence={setSequenceOverride}
+            onOverrideImage={setImageOverride}
           />
 
           {/* Preview */}
           {sequences.length > 0 && (
-            <PreviewPanel sequences={sequences} />
+            <PreviewPanel 
+              sequences={sequences} 
+              onActiveImageChange={prioritizeImage}
+              fps={previewFps}
+              onFpsChange={setPreviewFps}
+              onFramingChange={setImageFraming}
+              transform={settings.transform}
+              adjustments={settings.adjustments}
+            />
           )}
         </main>
 
@@ -0,0 +1,319 @@
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import { ImageFraming, MAX_STRAIGHTEN_ANGLE, NormalizedRect, Rotation, TransformSettings, getStraightenAngle, getTransformGeometry } from '@/lib/converter'
+import { Crop, Crosshair, Ruler, RotateCcw, RotateCcwSquare, RotateCwSquare, FlipHorizontal2, FlipVertical2, Check, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import en from '@/i18n/en.json'
+
+type CropTool = 'crop' | 'focus' | 'straighten'
+
+interface CropEditorProps {
+  src: string
+  framing: ImageFraming | null
+  /** Transform from the settings, the starting point for per-image edits */
+  defaultTransform: TransformSettings
+  zoom: number
+  onApply: (framing: ImageFraming | null) => void
+  onCancel: () => void
+}
+
+// Drags smaller than this (in image-relative units) clear the crop instead
+const MIN_CROP = 0.01
+
+// Long edge of the result preview, in CSS pixels
+const PREVIEW_SIZE = 240
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+/**
+ * Draws a crop rectangle, places a focal point or measures a straighten
+ * line over the original image, and sets this image's rotation and flips,
+ * previewing the transformed result alongside.
+ * Everything is stored relative to the image size (0-1) so it survives
+ * any resize settings.
+ */
+export function CropEditor({ src, framing, defaultTransform, zoom, onApply, onCancel }: CropEditorProps) {
+  const [tool, setTool] = useState<CropTool>('crop')
+  const [crop, setCrop] = useState<NormalizedRect | null>(framing?.crop ?? null)
+  const [focalPoint, setFocalPoint] = useState(framing?.focalPoint ?? null)
+  const [transform, setTransform] = useState<TransformSettings | null>(framing?.transform ?? null)
+  const [level, setLevel] = useState<{ from: { x: number; y: number }; to: { x: number; y: number } } | null>(null)
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null)
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const imageRef = useRef<HTMLImageElement>(null)
+  const previewRef = useRef<HTMLCanvasElement>(null)
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null)
+
+  // Until this image is edited it follows the settings
+  const currentTransform = transform ?? defaultTransform
+
+  // Result preview: the crop with rotation, flips and straighten applied,
+  // drawn with the same geometry the converter uses
+  useEffect(() => {
+    const img = imageRef.current
+    const canvas = previewRef.current
+    if (!img || !canvas || !naturalSize) return
+
+    const region = crop ?? { x: 0, y: 0, width: 1, height: 1 }
+    const sx = Math.round(region.x * naturalSize.width)
+    const sy = Math.round(region.y * naturalSize.height)
+    const sw = Math.max(1, Math.min(naturalSize.width - sx, Math.round(region.width * naturalSize.width)))
+    const sh = Math.max(1, Math.min(naturalSize.height - sy, Math.round(region.height * naturalSize.height)))
+
+    const geometry = getTransformGeometry(sw, sh, currentTransform)
+    const scale = Math.min(1, PREVIEW_SIZE / Math.max(geometry.width, geometry.height))
+    canvas.width = Math.max(1, Math.round(geometry.width * scale))
+    canvas.height = Math.max(1, Math.round(geometry.height * scale))
+
+    const ctx = canvas.getContext('2d')!
+    ctx.imageSmoothingQuality = 'high'
+    ctx.setTransform(scale, 0, 0, scale, 0, 0)
+    ctx.transform(...geometry.matrix)
+    ctx.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh)
+  }, [crop, currentTransform, naturalSize])
+
+  const updateTransform = (update: Partial<TransformSettings>) => {
+    setTransform({ ...currentTransform, ...update })
+  }
+
+  const getPoint = (e: React.PointerEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect()
+    return {
+      x: clamp01((e.clientX - rect.left) / rect.width),
+      y: clamp01((e.clientY - rect.top) / rect.height)
+    }
+  }
+
+  const updateFromPointer = (e: React.PointerEvent) => {
+    const point = getPoint(e)
+
+    if (tool === 'focus') {
+      setFocalPoint(point)
+      return
+    }
+
+    const start = dragStartRef.current!
+    if (tool === 'straighten') {
+      setLevel({ from: start, to: point })
+      return
+    }
+
+    setCrop({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y)
+    })
+  }
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragStartRef.current = getPoint(e)
+    updateFromPointer(e)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragStartRef.current) updateFromPointer(e)
+  }
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null
+    // A click without a drag removes the crop
+    if (tool === 'crop' && crop && (crop.width < MIN_CROP || crop.height < MIN_CROP)) {
+      setCrop(null)
+    }
+
+    // The drawn line becomes level (or plumb) in the output
+    if (tool === 'straighten' && level && naturalSize) {
+      const dx = (level.to.x - level.from.x) * naturalSize.width
+      const dy = (level.to.y - level.from.y) * naturalSize.height
+      if (Math.hypot(dx, dy) > 4) {
+        updateTransform({ angle: getStraightenAngle(dx, dy, currentTransform) })
+      }
+      setLevel(null)
+    }
+  }
+
+  const handleApply = () => {
+    onApply(crop || focalPoint || transform ? { crop, focalPoint, transform } : null)
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="flex items-center justify-center gap-2 flex-wrap">
+        <Button
+          variant={tool === 'crop' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setTool('crop')}
+        >
+          <Crop className="h-3.5 w-3.5 mr-1.5" /> {en.cropEditor.tools.crop}
+        </Button>
+        <Button
+          variant={tool === 'focus' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setTool('focus')}
+        >
+          <Crosshair className="h-3.5 w-3.5 mr-1.5" /> {en.cropEditor.tools.focus}
+        </Button>
+        <Button
+          variant={tool === 'straighten' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setTool('straighten')}
+        >
+          <Ruler className="h-3.5 w-3.5 mr-1.5" /> {en.cropEditor.tools.straighten}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setCrop(null)
+            setFocalPoint(null)
+            setTransform(null)
+          }}
+          disabled={!crop && !focalPoint && !transform}
+        >
+          <RotateCcw className="h-3.5 w-3.5 mr-1.5" /> {en.cropEditor.reset}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          <X className="h-3.5 w-3.5 mr-1.5" /> {en.cropEditor.cancel}
+        </Button>
+        <Button size="sm" onClick={handleApply}>
+          <Check className="h-3.5 w-3.5 mr-1.5" /> {en.cropEditor.apply}
+        </Button>
+      </div>
+
+      {/* Rotation, flips and straighten angle of this image */}
+      <div className="flex items-center justify-center gap-2 flex-wrap">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 w-7 p-0"
+          onClick={() => updateTransform({ rotation: ((currentTransform.rotation + 270) % 360) as Rotation })}
+          title={en.cropEditor.rotateLeft}
+        >
+          <RotateCcwSquare className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 w-7 p-0"
+          onClick={() => updateTransform({ rotation: ((currentTransform.rotation + 90) % 360) as Rotation })}
+          title={en.cropEditor.rotateRight}
+        >
+          <RotateCwSquare className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant={currentTransform.flipHorizontal ? 'secondary' : 'outline'}
+          size="sm"
+          className="h-7 w-7 p-0"
+          onClick={() => updateTransform({ flipHorizontal: !currentTransform.flipHorizontal })}
+          title={en.cropEditor.flipHorizontal}
+        >
+          <FlipHorizontal2 className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant={currentTransform.flipVertical ? 'secondary' : 'outline'}
+          size="sm"
+          className="h-7 w-7 p-0"
+          onClick={() => updateTransform({ flipVertical: !currentTransform.flipVertical })}
+          title={en.cropEditor.flipVertical}
+        >
+          <FlipVertical2 className="h-3.5 w-3.5" />
+        </Button>
+        <Slider
+          value={[currentTransform.angle]}
+          onValueChange={([angle]) => updateTransform({ angle })}
+          min={-MAX_STRAIGHTEN_ANGLE}
+          max={MAX_STRAIGHTEN_ANGLE}
+          step={0.1}
+          className="w-40"
+        />
+        <span className="text-xs font-mono text-muted-foreground w-20">
+          {currentTransform.rotation}° {currentTransform.angle > 0 ? '+' : ''}{currentTransform.angle.toFixed(1)}°
+        </span>
+      </div>
+
+      <p className="text-xs text-muted-foreground text-center">
+        {en.cropEditor.hints[tool]}
+      </p>
+
+      {/* Image with overlay, and the result next to it */}
+      <div className="flex justify-center items-start gap-4 flex-wrap">
+        <div className="relative inline-block select-none overflow-hidden rounded-lg">
+          <img
+            ref={imageRef}
+            src={src}
+            alt=""
+            draggable={false}
+            onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            style={naturalSize ? { width: (naturalSize.width * zoom) / 100, maxWidth: 'none' } : undefined}
+            className="block"
+          />
+          <div
+            ref={overlayRef}
+            className="absolute inset-0 cursor-crosshair touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            {/* Everything outside the crop is dimmed */}
+            {crop && (
+              <div
+                className="absolute border-2 border-primary"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)'
+                }}
+              />
+            )}
+
+            {focalPoint && (
+              <div
+                className={cn(
+                  'absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white bg-primary shadow',
+                  tool === 'focus' && 'ring-2 ring-primary/50'
+                )}
+                style={{ left: `${focalPoint.x * 100}%`, top: `${focalPoint.y * 100}%` }}
+              />
+            )}
+
+            {level && (
+              <svg className="absolute inset-0 w-full h-full pointer-events-none">
+                <line
+                  x1={`${level.from.x * 100}%`}
+                  y1={`${level.from.y * 100}%`}
+                  x2={`${level.to.x * 100}%`}
+                  y2={`${level.to.y * 100}%`}
+                  className="stroke-primary"
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                />
+              </svg>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <p className="text-xs text-muted-foreground">{en.cropEditor.result}</p>
+          <div className="relative inline-block rounded-lg overflow-hidden">
+            <canvas ref={previewRef} className="block" />
+            {/* Thirds grid to judge what is level */}
+            <svg className="absolute inset-0 w-full h-full pointer-events-none">
+              {[1 / 3, 2 / 3].map((position) => (
+                <g key={position} className="stroke-white/50" strokeWidth={1}>
+                  <line x1={`${position * 100}%`} y1="0" x2={`${position * 100}%`} y2="100%" />
+                  <line x1="0" y1={`${position * 100}%`} x2="100%" y2={`${position * 100}%`} />
+                </g>
+              ))}
+            </svg>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -8,8 +8,8 @@ interface DropZoneProps {
   disabled?: boolean
 }
 
-const ACCEPTED_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/gif', 'image/bmp', 'image/tiff', 'image/webp']
-const ACCEPTED_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.tiff', '.tif', '.webp']
+const ACCEPTED_TYPES = ['image/png', 'image/apng', 'image/jpeg', 'image/jpg', 'image/gif', 'image/bmp', 'image/tiff', 'image/webp']
+const ACCEPTED_EXTENSIONS = ['.png', '.apng', '.jpg', '.jpeg', '.gif', '.bmp', '.tiff', '.tif', '.webp']
 
 // Check if file is an accepted image type
 function isAcceptedImage(file: File): boolean {
@@ -0,0 +1,108 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { ToneAdjustments } from '@/lib/converter'
+import { Histogram as HistogramData, applyToneAdjustments, computeHistogram, isNeutralAdjustments } from '@/lib/tone-adjustments'
+import { cn } from '@/lib/utils'
+
+interface HistogramProps {
+  /** Source image; its histogram is drawn with the adjustments applied */
+  src: string
+  adjustments: ToneAdjustments
+  className?: string
+}
+
+// Histograms are taken from a downscaled copy; plenty for the shape
+const SAMPLE_SIZE = 256
+
+async function loadSample(src: string): Promise<ImageData> {
+  const img = new Image()
+  img.src = src
+  await img.decode()
+
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(img.naturalWidth, img.naturalHeight))
+  const width = Math.max(1, Math.round(img.naturalWidth * scale))
+  const height = Math.max(1, Math.round(img.naturalHeight * scale))
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!
+  ctx.drawImage(img, 0, 0, width, height)
+
+  return ctx.getImageData(0, 0, width, height)
+}
+
+/**
+ * Scales bins by the tallest one, ignoring the clipped ends so a
+ * burnt-out sky doesn't flatten everything else
+ */
+function toPath(bins: Uint32Array, peak: number, closed: boolean): string {
+  const points = Array.from(bins, (count, level) => `${level},${100 - Math.min(1, count / peak) * 100}`)
+  return closed ? `M0,100 L${points.join(' L')} L255,100 Z` : `M${points.join(' L')}`
+}
+
+function getPeak(histogram: HistogramData): number {
+  let peak = 1
+  for (const bins of [histogram.red, histogram.green, histogram.blue, histogram.luma]) {
+    for (let level = 1; level < 255; level++) peak = Math.max(peak, bins[level])
+  }
+  return peak
+}
+
+/**
+ * Downscaled pixels of an image URL, null while it loads
+ */
+function useSample(src: string): ImageData | null {
+  const [loaded, setLoaded] = useState<{ src: string; sample: ImageData } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    loadSample(src)
+      .then((sample) => { if (!cancelled) setLoaded({ src, sample }) })
+      .catch(() => { if (!cancelled) setLoaded(null) })
+    return () => { cancelled = true }
+  }, [src])
+
+  return loaded && loaded.src === src ? loaded.sample : null
+}
+
+/**
+ * RGB and luma histogram of the source with the tone adjustments applied
+ * to a small sample, so it follows the sliders without reconverting. The
+ * unadjusted source is drawn dashed behind it while adjustments are on.
+ */
+export function Histogram({ src, adjustments, className }: HistogramProps) {
+  const sample = useSample(src)
+
+  const reference = useMemo(() => sample && computeHistogram(sample.data), [sample])
+  const histogram = useMemo(() => {
+    if (!sample || isNeutralAdjustments(adjustments)) return reference
+    const adjusted = sample.data.slice()
+    applyToneAdjustments(adjusted, adjustments)
+    return computeHistogram(adjusted)
+  }, [sample, reference, adjustments])
+
+  if (!histogram || histogram.total === 0) return null
+
+  const peak = getPeak(histogram)
+
+  return (
+    <svg
+      viewBox="0 0 255 100"
+      preserveAspectRatio="none"
+      className={cn('w-full h-16 rounded bg-muted/30', className)}
+    >
+      <path d={toPath(histogram.luma, peak, true)} className="fill-muted-foreground/30" />
+      {reference && reference !== histogram && reference.total > 0 && (
+        <path
+          d={toPath(reference.luma, getPeak(reference), false)}
+          className="fill-none stroke-muted-foreground"
+          strokeWidth={1}
+          strokeDasharray="3 2"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+      <path d={toPath(histogram.red, peak, false)} className="fill-none stroke-red-500/70" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      <path d={toPath(histogram.green, peak, false)} className="fill-none stroke-green-500/70" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      <path d={toPath(histogram.blue, peak, false)} className="fill-none stroke-blue-500/70" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+    </svg>
+  )
+}
@@ -2,6 +2,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { SequenceGroup } from './SequenceGroup'
 import { ImageSequence, ImageFile } from '@/lib/sequence-detector'
+import { AnimationOptions } from '@/lib/webp-container'
+import type { OutputFormat } from '@/lib/formats'
+import { ConversionSettings, SettingsOverride } from '@/lib/converter'
 import { Download, Trash2, Images } from 'lucide-react'
 import { formatBytes, getPercentageReduction } from '@/lib/utils'
 import en from '@/i18n/en.json'
@@ -9,17 +12,33 @@ import en from '@/i18n/en.json'
 interface ImageListProps {
   sequences: ImageSequence[]
   onDownloadSequence: (sequence: ImageSequence) => void
+  onDownloadAnimated: (sequence: ImageSequence, options: AnimationOptions) => void
+  animationFps: number
   onDownloadSingle: (image: ImageFile) => void
   onDownloadAll: () => void
   onClear: () => void
+  srcsetSizes: string
+  fileNameTemplate: string
+  settings: ConversionSettings
+  encodableFormats: OutputFormat[]
+  onOverrideSequence: (sequence: ImageSequence, override: SettingsOverride | null) => void
+  onOverrideImage: (image: ImageFile, override: SettingsOverride | null) => void
 }
 
 export function ImageList({
   sequences,
   onDownloadSequence,
+  onDownloadAnimated,
+  animationFps,
   onDownloadSingle,
   onDownloadAll,
-  onClear
+  onClear,
+  srcsetSizes,
+  fileNameTemplate,
+  settings,
+  encodableFormats,
+  onOverrideSequence,
+  onOverrideImage
 }: ImageListProps) {
   const totalImages = sequences.reduce((sum, seq) => sum + seq.images.length, 0)
   const completedImages = sequences.reduce(
@@ -92,7 +111,15 @@ export function ImageList({
             key={sequence.id}
             sequence={sequence}
             onDownload={onDownloadSequence}
+            onDownloadAnimated={onDownloadAnimated}
+            animationFps={animationFps}
             onDownloadSingle={onDownloadSingle}
+            srcsetSizes={srcsetSizes}
+            fileNameTemplate={fileNameTemplate}
+            settings={settings}
+            encodableFormats={encodableFormats}
+            onOverrideSequence={onOverrideSequence}
+            onOverrideImage={onOverrideImage}
           />
         ))}
       </CardContent>
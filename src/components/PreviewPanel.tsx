@@ -8,8 +8,12 @@ import { Input } from '@/components/ui/input'
 import { Separator } from '@/components/ui/separator'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { ImageCompare } from './ImageCompare'
-import { ImageSequence } from '@/lib/sequence-detector'
-import { formatBytes, getPercentageReduction } from '@/lib/utils'
+import { CropEditor } from './CropEditor'
+import { Histogram } from './Histogram'
+import { ImageFile, ImageSequence } from '@/lib/sequence-detector'
+import type { ImageFraming, ToneAdjustments, TransformSettings } from '@/lib/converter'
+import { formatBytes, formatPsnr, formatSsim, getPercentageReduction } from '@/lib/utils'
+import { OUTPUT_FORMATS } from '@/lib/formats'
 import { 
   Eye, 
   ChevronLeft, 
@@ -18,9 +22,11 @@ import {
   Pause,
   Repeat,
   ZoomIn,
-  ChevronDown
+  ChevronDown,
+  Crop
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import en from '@/i18n/en.json'
 
 // Checkerboard pattern for transparency
 const checkerboardStyle = {
@@ -40,12 +46,23 @@ const ZOOM_PRESETS = [25, 50, 75, 100, 125, 150, 200, 300, 400]
 
 interface PreviewPanelProps {
   sequences: ImageSequence[]
+  /** Called with the image currently on screen so it can be converted first */
+  onActiveImageChange?: (imageId: string) => void
+  /** Playback rate, shared with the animated export */
+  fps: number
+  onFpsChange: (fps: number) => void
+  /** Stores a crop / focal point / transform for an image and re-converts it */
+  onFramingChange?: (image: ImageFile, framing: ImageFraming | null) => void
+  /** Transform from the settings, used by images without their own */
+  transform: TransformSettings
+  /** Tone adjustments from the settings, previewed live in the histogram */
+  adjustments: ToneAdjustments
   className?: string
 }
 
 type ViewSource = 'original' | 'converted'
 
-export function PreviewPanel({ sequences, className }: PreviewPanelProps) {
+export function PreviewPanel({ sequences, onActiveImageChange, fps, onFpsChange, onFramingChange, transform, adjustments, className }: PreviewPanelProps) {
   const [selectedSequenceIndex, setSelectedSequenceIndex] = useState(0)
   const [compareEnabled, setCompareEnabled] = useState(true)
   const [viewSource, setViewSource] = useState<ViewSource>('converted')
@@ -57,8 +74,8 @@ export function PreviewPanel({ sequences, className }: PreviewPanelProps) {
   // Sequence playback state (for non-compare mode)
   const [currentFrame, setCurrentFrame] = useState(0)
   const [isPlaying, setIsPlaying] = useState(false)
-  const [fps, setFps] = useState(24)
   const [loop, setLoop] = useState(true)
+  const [isCropping, setIsCropping] = useState(false)
 
   // Get current sequence
   const currentSequence = sequences[selectedSequenceIndex]
@@ -96,6 +113,17 @@ export function PreviewPanel({ sequences, className }: PreviewPanelProps) {
 
   // Generate URLs for current image (single image or current frame)
   const currentImage = currentSequence?.images[currentFrame]
+  const currentImageId = currentImage?.id
+  
+  // Let the converter know which frame is on screen
+  useEffect(() => {
+    if (currentImageId) onActiveImageChange?.(currentImageId)
+  }, [currentImageId, onActiveImageChange])
+
+  // The crop editor always belongs to the image it was opened on
+  useEffect(() => {
+    setIsCropping(false)
+  }, [currentImageId])
   
   const imageUrls = useMemo(() => {
     if (!currentImage) return null
@@ -177,16 +205,16 @@ export function PreviewPanel({ sequences, className }: PreviewPanelProps) {
   const handleFpsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(e.target.value, 10)
     if (!isNaN(value) && value > 0 && value <= 120) {
-      setFps(value)
+      onFpsChange(value)
     }
   }
 
   const handleFpsBlur = (e: React.FocusEvent<HTMLInputElement>) => {
     const value = parseInt(e.target.value, 10)
     if (isNaN(value) || value < 1) {
-      setFps(1)
+      onFpsChange(1)
     } else if (value > 120) {
-      setFps(120)
+      onFpsChange(120)
     }
   }
 
@@ -224,6 +252,7 @@ export function PreviewPanel({ sequences, className }: PreviewPanelProps) {
   }
 
   const isReady = currentImage?.status === 'done'
+  const convertedLabel = currentImage?.outputFormat ? OUTPUT_FORMATS[currentImage.outputFormat].label : 'WebP'
   const isSequenceReady = currentSequence.isSequence && 
     currentSequence.images.every(img => img.status === 'done')
 
@@ -320,6 +349,24 @@ export function PreviewPanel({ sequences, className }: PreviewPanelProps) {
 
             <Separator orientation="vertical" className="h-5" />
 
+            {/* Crop / focal point editor */}
+            {onFramingChange && (
+              <Button
+                variant={isCropping || currentImage?.framing ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => {
+                  setIsPlaying(false)
+                  setIsCropping(prev => !prev)
+                }}
+                disabled={!currentImage}
+                title={en.cropEditor.openTitle}
+              >
+                <Crop className={cn('h-3.5 w-3.5 mr-1', currentImage?.framing && 'text-primary')} />
+                {en.cropEditor.open}
+              </Button>
+            )}
+
             {/* Compare toggle */}
             <div className="flex items-center gap-2">
               <Label htmlFor="compare-toggle" className="text-xs text-muted-foreground">
@@ -345,12 +392,25 @@ export function PreviewPanel({ sequences, className }: PreviewPanelProps) {
         >
           <div className="flex items-center justify-center min-h-[200px] p-4">
             {/* Main preview area */}
-            {compareEnabled ? (
+            {isCropping && currentImage && imageUrls && onFramingChange ? (
+              <CropEditor
+                src={imageUrls.original}
+                framing={currentImage.framing}
+                defaultTransform={transform}
+                zoom={zoom}
+                onApply={(framing) => {
+                  onFramingChange(currentImage, framing)
+                  setIsCropping(false)
+                }}
+                onCancel={() => setIsCropping(false)}
+              />
+            ) : compareEnabled ? (
               <>
                 {/* Sequence with animation in compare mode */}
                 {isSequence && sequenceFrames ? (
                   <ImageCompare 
                     frames={sequenceFrames} 
+                    convertedLabel={convertedLabel}
                     fitToContainer={false} 
                     zoom={zoom}
                   />
@@ -358,6 +418,7 @@ export function PreviewPanel({ sequences, className }: PreviewPanelProps) {
                   <ImageCompare
                     originalSrc={imageUrls.original}
                     convertedSrc={imageUrls.converted}
+                    convertedLabel={convertedLabel}
                     fitToContainer={false}
                     zoom={zoom}
                   />
@@ -408,7 +469,7 @@ export function PreviewPanel({ sequences, className }: PreviewPanelProps) {
 
                     {/* Source indicator */}
                     <div className="absolute top-3 right-3 px-2 py-1 rounded bg-black/60 text-white text-xs font-medium backdrop-blur-sm">
-                      {viewSource === 'converted' && isReady ? 'WebP' : 'Original'}
+                      {viewSource === 'converted' && isReady ? convertedLabel : 'Original'}
                     </div>
                   </div>
                 )}
@@ -433,7 +494,7 @@ export function PreviewPanel({ sequences, className }: PreviewPanelProps) {
               onClick={() => setViewSource('converted')}
               disabled={!isReady && !isSequenceReady}
             >
-              WebP
+              {convertedLabel}
             </Button>
           </div>
         )}
@@ -516,9 +577,22 @@ export function PreviewPanel({ sequences, className }: PreviewPanelProps) {
             <span className="text-primary font-medium">
               -{getPercentageReduction(sizeInfo.original, sizeInfo.converted)}%
             </span>
+            {currentImage?.metrics && (
+              <span
+                className={currentImage.meetsQualityFloor === false ? 'text-amber-500' : undefined}
+                title={`MS-SSIM ${formatSsim(currentImage.metrics.msSsim)}`}
+              >
+                SSIM {formatSsim(currentImage.metrics.ssim)} • {formatPsnr(currentImage.metrics.psnr)}
+              </span>
+            )}
           </div>
         )}
 
+        {/* Histogram with the current tone adjustments, the original dashed behind it */}
+        {imageUrls && !isCropping && (
+          <Histogram src={imageUrls.original} adjustments={adjustments} />
+        )}
+
         <Separator />
 
         {/* Navigation */}
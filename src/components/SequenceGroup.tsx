@@ -3,6 +3,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { 
   Download, 
   Film, 
@@ -11,20 +14,59 @@ import {
   ChevronDown,
   ChevronUp,
   Check,
-  Loader2
+  Loader2,
+  Clapperboard,
+  ShieldCheck,
+  Palette,
+  Code,
+  Copy,
+  SlidersHorizontal
 } from 'lucide-react'
 import { ImageSequence, ImageFile } from '@/lib/sequence-detector'
-import { formatBytes, getPercentageReduction, cn } from '@/lib/utils'
+import { formatBytes, formatPsnr, formatSsim, getPercentageReduction, cn } from '@/lib/utils'
+import { OUTPUT_FORMATS, OutputFormat } from '@/lib/formats'
+import { PRIVACY_FINDING_ORDER } from '@/lib/metadata'
+import { AnimationOptions, DEFAULT_ANIMATION_OPTIONS } from '@/lib/webp-container'
+import { SrcsetMarkup, buildSrcsetMarkup } from '@/lib/srcset'
+import { getOutputFiles } from '@/lib/filename-template'
+import { ConversionSettings, SettingsOverride, applySettingsOverride } from '@/lib/converter'
+import { SettingsOverrideEditor } from './SettingsOverrideEditor'
 import en from '@/i18n/en.json'
 
 interface SequenceGroupProps {
   sequence: ImageSequence
   onDownload: (sequence: ImageSequence) => void
+  onDownloadAnimated: (sequence: ImageSequence, options: AnimationOptions) => void
+  animationFps: number
   onDownloadSingle: (image: ImageFile) => void
+  srcsetSizes: string
+  fileNameTemplate: string
+  /** Global settings, for a sequence not converted yet */
+  settings: ConversionSettings
+  encodableFormats: OutputFormat[]
+  onOverrideSequence: (sequence: ImageSequence, override: SettingsOverride | null) => void
+  onOverrideImage: (image: ImageFile, override: SettingsOverride | null) => void
 }
 
-export function SequenceGroup({ sequence, onDownload, onDownloadSingle }: SequenceGroupProps) {
+export function SequenceGroup({
+  sequence,
+  onDownload,
+  onDownloadAnimated,
+  animationFps,
+  onDownloadSingle,
+  srcsetSizes,
+  fileNameTemplate,
+  settings,
+  encodableFormats,
+  onOverrideSequence,
+  onOverrideImage
+}: SequenceGroupProps) {
   const [expanded, setExpanded] = useState(false)
+  const [overrideOpen, setOverrideOpen] = useState(false)
+  const [overrideImageId, setOverrideImageId] = useState<string | null>(null)
+  const [animationOptions, setAnimationOptions] = useState<AnimationOptions>(DEFAULT_ANIMATION_OPTIONS)
+  const [srcsetMarkup, setSrcsetMarkup] = useState<SrcsetMarkup>('img')
+  const [copied, setCopied] = useState(false)
   
   const completedCount = sequence.images.filter(img => img.status === 'done').length
   const totalCount = sequence.images.length
@@ -35,6 +77,64 @@ export function SequenceGroup({ sequence, onDownload, onDownloadSingle }: Sequen
   const totalOriginal = sequence.images.reduce((sum, img) => sum + img.originalSize, 0)
   const totalConverted = sequence.images.reduce((sum, img) => sum + (img.convertedSize || 0), 0)
   const reduction = isComplete ? getPercentageReduction(totalOriginal, totalConverted) : 0
+  
+  // Qualities actually used (they vary per image in target size mode)
+  const qualities = sequence.images
+    .map(img => img.chosenQuality)
+    .filter((q): q is number => q !== null)
+  const minQuality = qualities.length > 0 ? Math.min(...qualities) : null
+  const maxQuality = qualities.length > 0 ? Math.max(...qualities) : null
+  const outputFormat = sequence.images.find(img => img.outputFormat)?.outputFormat
+  const convertedLabel = outputFormat ? OUTPUT_FORMATS[outputFormat].label : en.results.converted
+  const canAnimate = sequence.isSequence && totalCount > 1
+  const allWebP = sequence.images.every(img => img.outputFormat === 'webp')
+  const overBudgetCount = sequence.images.filter(img => img.withinTarget === false).length
+  const belowFloorCount = sequence.images.filter(img => img.meetsQualityFloor === false).length
+  
+  // Worst frame of a sequence is what matters for the metrics
+  const measured = sequence.images.flatMap(img => (img.metrics ? [img.metrics] : []))
+  const worstMetrics = measured.length > 0
+    ? {
+        ssim: Math.min(...measured.map(metrics => metrics.ssim)),
+        msSsim: Math.min(...measured.map(metrics => metrics.msSsim)),
+        psnr: Math.min(...measured.map(metrics => metrics.psnr))
+      }
+    : null
+  
+  // Privacy mode: what was found (and removed) across all images
+  const privacyChecked = sequence.images.some(img => img.privacyFindings !== null)
+  const privacyFindings = PRIVACY_FINDING_ORDER.filter(finding =>
+    sequence.images.some(img => img.privacyFindings?.includes(finding))
+  )
+  const privacyCount = sequence.images.filter(img => img.privacyFindings && img.privacyFindings.length > 0).length
+  
+  // Overrides apply to the settings the sequence was converted with
+  const imageOverrideCount = sequence.images.filter(img => img.settingsOverride).length
+  const isOverridden = sequence.settingsOverride !== null || imageOverrideCount > 0
+  const baseSettings = sequence.settings ?? settings
+  const sequenceSettings = applySettingsOverride(baseSettings, sequence.settingsOverride)
+  
+  // Non-sRGB source (frames of a sequence share one profile in practice)
+  const sourceProfile = sequence.images.find(img => img.sourceProfile)?.sourceProfile
+  
+  // Responsive sets: one snippet per image, in file order, named like the
+  // ZIP downloaded on `date`
+  const variantCount = Math.max(0, ...sequence.images.map(img => img.variants?.length ?? 0))
+  const buildSnippet = (date: Date) => {
+    const files = getOutputFiles(sequence.images, fileNameTemplate, date)
+    return sequence.images
+      .map(img => buildSrcsetMarkup(img, files.get(img.id) ?? [], srcsetSizes, srcsetMarkup))
+      .filter((markup): markup is string => markup !== null)
+      .join('\n\n')
+  }
+  const snippet = buildSnippet(new Date())
+  
+  const handleCopySnippet = async () => {
+    // Named as of now, in case the date changed since this rendered
+    await navigator.clipboard.writeText(buildSnippet(new Date()))
+    setCopied(true)
+    setTimeout(() => setCopied(false), 1500)
+  }
 
   return (
     <Card className={cn(
@@ -71,6 +171,54 @@ export function SequenceGroup({ sequence, onDownload, onDownloadSingle }: Sequen
                 </Badge>
               )}
               
+              {overBudgetCount > 0 && (
+                <Badge variant="destructive" className="text-xs flex items-center gap-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  {en.results.overBudget}
+                  {sequence.isSequence && ` (${overBudgetCount})`}
+                </Badge>
+              )}
+              
+              {belowFloorCount > 0 && (
+                <Badge variant="destructive" className="text-xs flex items-center gap-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  {en.results.belowFloor}
+                  {sequence.isSequence && ` (${belowFloorCount})`}
+                </Badge>
+              )}
+              
+              {isOverridden && (
+                <Badge variant="outline" className="text-xs flex items-center gap-1">
+                  <SlidersHorizontal className="w-3 h-3 text-primary" />
+                  {en.results.override.badge}
+                  {sequence.isSequence && imageOverrideCount > 0 && ` (${imageOverrideCount})`}
+                </Badge>
+              )}
+              
+              {variantCount > 0 && (
+                <Badge variant="outline" className="text-xs">
+                  {en.results.responsive.widths.replace('{count}', String(variantCount))}
+                </Badge>
+              )}
+              
+              {sourceProfile && (
+                <Badge variant="outline" className="text-xs flex items-center gap-1">
+                  <Palette className="w-3 h-3 text-primary" />
+                  {(sourceProfile.kept ? en.results.colorProfile.kept : en.results.colorProfile.converted)
+                    .replace('{name}', sourceProfile.name)}
+                </Badge>
+              )}
+              
+              {privacyChecked && (
+                <Badge variant="outline" className="text-xs flex items-center gap-1">
+                  <ShieldCheck className="w-3 h-3 text-primary" />
+                  {privacyFindings.length > 0
+                    ? `${en.results.privacy.removed}: ${privacyFindings.map(finding => en.results.privacy.findings[finding]).join(', ')}`
+                    : en.results.privacy.clean}
+                  {sequence.isSequence && privacyCount > 0 && ` (${privacyCount})`}
+                </Badge>
+              )}
+              
               {isComplete && (
                 <Badge variant="success" className="text-xs">
                   -{reduction}% {en.results.reduction}
@@ -79,24 +227,157 @@ export function SequenceGroup({ sequence, onDownload, onDownloadSingle }: Sequen
             </div>
           </div>
           
-          <Button
-            size="sm"
-            variant={isComplete ? "default" : "secondary"}
-            onClick={() => onDownload(sequence)}
-            disabled={!isComplete}
-            className="shrink-0"
-          >
-            {isConverting ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : isComplete ? (
-              <Download className="w-4 h-4" />
-            ) : (
-              <Check className="w-4 h-4" />
+          <div className="flex items-center gap-2 shrink-0">
+            <Popover open={overrideOpen} onOpenChange={setOverrideOpen}>
+              <PopoverTrigger asChild>
+                <Button
+                  size="sm"
+                  variant={sequence.settingsOverride ? 'secondary' : 'outline'}
+                  title={en.results.override.button}
+                >
+                  <SlidersHorizontal className={cn('w-4 h-4', sequence.settingsOverride && 'text-primary')} />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-64" align="end">
+                <SettingsOverrideEditor
+                  inherited={baseSettings}
+                  override={sequence.settingsOverride}
+                  encodableFormats={encodableFormats}
+                  onApply={(override) => {
+                    onOverrideSequence(sequence, override)
+                    setOverrideOpen(false)
+                  }}
+                />
+              </PopoverContent>
+            </Popover>
+            
+            {snippet && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button size="sm" variant="outline">
+                    <Code className="w-4 h-4" />
+                    <span className="ml-1 hidden sm:inline">
+                      {en.results.responsive.button}
+                    </span>
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-96 space-y-3" align="end">
+                  <div>
+                    <p className="text-sm font-medium">{en.results.responsive.title}</p>
+                    <p className="text-xs text-muted-foreground mt-1">{en.results.responsive.description}</p>
+                  </div>
+                  <div className="flex gap-1.5">
+                    {(['img', 'picture'] as SrcsetMarkup[]).map((markup) => (
+                      <Button
+                        key={markup}
+                        size="sm"
+                        variant={srcsetMarkup === markup ? 'default' : 'outline'}
+                        className="h-7 text-xs font-mono"
+                        onClick={() => setSrcsetMarkup(markup)}
+                      >
+                        {`<${markup}>`}
+                      </Button>
+                    ))}
+                  </div>
+                  <pre className="max-h-48 overflow-auto rounded-md bg-muted/50 p-2 text-[10px] font-mono whitespace-pre">
+                    {snippet}
+                  </pre>
+                  <Button size="sm" className="w-full" onClick={handleCopySnippet}>
+                    {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                    <span className="ml-1">{copied ? en.results.responsive.copied : en.results.responsive.copy}</span>
+                  </Button>
+                </PopoverContent>
+              </Popover>
+            )}
+            
+            {canAnimate && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={!isComplete}
+                  >
+                    <Clapperboard className="w-4 h-4" />
+                    <span className="ml-1 hidden sm:inline">
+                      {en.results.animated.button}
+                    </span>
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-64 space-y-3" align="end">
+                  <div>
+                    <p className="text-sm font-medium">{en.results.animated.title}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {en.results.animated.description.replace('{fps}', String(animationFps))}
+                    </p>
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <Label htmlFor={`${sequence.id}-loops`} className="text-xs text-muted-foreground">
+                      {en.results.animated.loopCount}
+                      <span className="ml-1 opacity-60">({en.results.animated.loopCountHint})</span>
+                    </Label>
+                    <Input
+                      id={`${sequence.id}-loops`}
+                      type="number"
+                      min={0}
+                      max={65535}
+                      value={animationOptions.loopCount}
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10)
+                        setAnimationOptions(prev => ({
+                          ...prev,
+                          loopCount: isNaN(value) ? 0 : Math.max(0, Math.min(65535, value))
+                        }))
+                      }}
+                      className="w-16 h-7 text-center text-xs font-mono px-2 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <Label htmlFor={`${sequence.id}-background`} className="text-xs text-muted-foreground">
+                      {en.results.animated.background}
+                    </Label>
+                    <input
+                      id={`${sequence.id}-background`}
+                      type="color"
+                      value={animationOptions.backgroundColor}
+                      onChange={(e) => setAnimationOptions(prev => ({ ...prev, backgroundColor: e.target.value }))}
+                      className="w-16 h-7 rounded border border-input bg-transparent cursor-pointer"
+                    />
+                  </div>
+                  {!allWebP && (
+                    <p className="text-[10px] text-amber-500/80">⚠️ {en.results.animated.webpOnly}</p>
+                  )}
+                  <Button
+                    size="sm"
+                    className="w-full"
+                    disabled={!allWebP}
+                    onClick={() => onDownloadAnimated(sequence, animationOptions)}
+                  >
+                    <Download className="w-4 h-4" />
+                    <span className="ml-1">{en.results.animated.download}</span>
+                  </Button>
+                </PopoverContent>
+              </Popover>
             )}
-            <span className="ml-1 hidden sm:inline">
-              {en.results.download}
-            </span>
-          </Button>
+            
+            <Button
+              size="sm"
+              variant={isComplete ? "default" : "secondary"}
+              onClick={() => onDownload(sequence)}
+              disabled={!isComplete}
+            >
+              {isConverting ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : isComplete ? (
+                <Download className="w-4 h-4" />
+              ) : (
+                <Check className="w-4 h-4" />
+              )}
+              <span className="ml-1 hidden sm:inline">
+                {canAnimate ? en.results.zip : en.results.download}
+              </span>
+            </Button>
+          </div>
         </div>
         
         {/* Progress bar */}
@@ -114,7 +395,21 @@ export function SequenceGroup({ sequence, onDownload, onDownloadSingle }: Sequen
           <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
             <span>{en.results.original}: {formatBytes(totalOriginal)}</span>
             <span>→</span>
-            <span className="text-primary">{en.results.converted}: {formatBytes(totalConverted)}</span>
+            <span className="text-primary">{convertedLabel}: {formatBytes(totalConverted)}</span>
+            {minQuality !== null && (
+              <span>
+                {en.results.quality}{minQuality}
+                {maxQuality !== minQuality && `–${maxQuality}`}
+              </span>
+            )}
+            {worstMetrics && (
+              <span
+                className={cn(belowFloorCount > 0 && "text-amber-500")}
+                title={`${en.results.metrics.msSsim} ${formatSsim(worstMetrics.msSsim)}`}
+              >
+                {en.results.metrics.ssim} {formatSsim(worstMetrics.ssim)} • {en.results.metrics.psnr} {formatPsnr(worstMetrics.psnr)}
+              </span>
+            )}
           </div>
         )}
       </CardHeader>
@@ -153,6 +448,49 @@ export function SequenceGroup({ sequence, onDownload, onDownloadSingle }: Sequen
                     <span className="truncate flex-1 mr-2">
                       {img.frameNumber !== null ? `#${img.frameNumber}` : img.name}
                     </span>
+                    {img.meetsQualityFloor === false && img.metrics && (
+                      <span
+                        className="mr-1"
+                        title={`${en.results.belowFloor}: ${en.results.metrics.ssim} ${formatSsim(img.metrics.ssim)}`}
+                      >
+                        <AlertTriangle className="w-3 h-3 text-amber-500" />
+                      </span>
+                    )}
+                    {img.privacyFindings && img.privacyFindings.length > 0 && (
+                      <span
+                        className="mr-1"
+                        title={`${en.results.privacy.removed}: ${img.privacyFindings.map(finding => en.results.privacy.findings[finding]).join(', ')}`}
+                      >
+                        <ShieldCheck className="w-3 h-3 text-primary" />
+                      </span>
+                    )}
+                    <Popover
+                      open={overrideImageId === img.id}
+                      onOpenChange={(open) => setOverrideImageId(open ? img.id : null)}
+                    >
+                      <PopoverTrigger asChild>
+                        <button
+                          className={cn(
+                            'mr-1 transition-colors',
+                            img.settingsOverride ? 'text-primary' : 'text-muted-foreground hover:text-primary'
+                          )}
+                          title={en.results.override.button}
+                        >
+                          <SlidersHorizontal className="w-3 h-3" />
+                        </button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-64" align="end">
+                        <SettingsOverrideEditor
+                          inherited={sequenceSettings}
+                          override={img.settingsOverride}
+                          encodableFormats={encodableFormats}
+                          onApply={(override) => {
+                            onOverrideImage(img, override)
+                            setOverrideImageId(null)
+                          }}
+                        />
+                      </PopoverContent>
+                    </Popover>
                     {img.status === 'done' && (
                       <button
                         onClick={() => onDownloadSingle(img)}
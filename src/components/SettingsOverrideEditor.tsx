@@ -0,0 +1,179 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { Switch } from '@/components/ui/switch'
+import { ConversionSettings, SettingsOverride } from '@/lib/converter'
+import { OUTPUT_FORMATS, OutputFormat } from '@/lib/formats'
+import { RotateCcw, Check } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import en from '@/i18n/en.json'
+
+type LosslessChoice = 'inherit' | 'on' | 'off'
+type FormatChoice = 'inherit' | OutputFormat
+
+interface ChoiceRowProps<T extends string> {
+  choices: T[]
+  value: T
+  label: (choice: T) => string
+  onChange: (choice: T) => void
+}
+
+function ChoiceRow<T extends string>({ choices, value, label, onChange }: ChoiceRowProps<T>) {
+  return (
+    <div className="flex gap-1">
+      {choices.map((choice) => (
+        <button
+          key={choice}
+          onClick={() => onChange(choice)}
+          className={cn(
+            'flex-1 px-2 py-1 rounded text-xs transition-all cursor-pointer',
+            value === choice
+              ? 'bg-primary text-primary-foreground'
+              : 'bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground'
+          )}
+        >
+          {label(choice)}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+interface SettingsOverrideEditorProps {
+  /** Settings the item gets without an override of its own */
+  inherited: ConversionSettings
+  override: SettingsOverride | null
+  /** Formats the browser can encode; others aren't offered */
+  encodableFormats: OutputFormat[]
+  onApply: (override: SettingsOverride | null) => void
+}
+
+/**
+ * Format, quality, scale and lossless for one sequence or image. Untouched
+ * fields are left out of the override so they keep following the
+ * inherited settings.
+ */
+export function SettingsOverrideEditor({ inherited, override, encodableFormats, onApply }: SettingsOverrideEditorProps) {
+  const [format, setFormat] = useState<FormatChoice>(override?.outputFormat ?? 'inherit')
+  const [customQuality, setCustomQuality] = useState(override?.quality !== undefined)
+  const [quality, setQuality] = useState(override?.quality ?? inherited.quality)
+  const [customScale, setCustomScale] = useState(override?.resize !== undefined)
+  const [scale, setScale] = useState(override?.resize?.mode === 'percentage' ? override.resize.percentage : 100)
+  const [lossless, setLossless] = useState<LosslessChoice>(
+    override?.lossless === undefined ? 'inherit' : override.lossless ? 'on' : 'off'
+  )
+
+  const formatInfo = OUTPUT_FORMATS[format === 'inherit' ? inherited.outputFormat : format]
+
+  const handleApply = () => {
+    const next: SettingsOverride = {}
+    if (format !== 'inherit') {
+      next.outputFormat = format
+    }
+    if (customQuality && formatInfo.supportsQuality) {
+      // A fixed quality only makes sense without a size / perceptual search
+      next.quality = quality
+      next.qualityMode = 'fixed'
+    }
+    if (customScale) {
+      // Relative to the source, replacing whatever resize was inherited
+      next.resize = { ...inherited.resize, mode: 'percentage', percentage: scale }
+    }
+    if (lossless !== 'inherit') {
+      next.lossless = lossless === 'on'
+    }
+    onApply(Object.keys(next).length > 0 ? next : null)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium">{en.results.override.title}</p>
+        <p className="text-xs text-muted-foreground mt-1">{en.results.override.description}</p>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">{en.results.override.format}</Label>
+        <ChoiceRow<FormatChoice>
+          choices={['inherit', ...encodableFormats]}
+          value={format}
+          label={(choice) => choice === 'inherit' ? en.results.override.inherit : OUTPUT_FORMATS[choice].label}
+          onChange={setFormat}
+        />
+      </div>
+
+      {formatInfo.supportsQuality && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="override-quality" className="text-xs">
+              {en.results.override.quality}
+            </Label>
+            <Switch id="override-quality" checked={customQuality} onCheckedChange={setCustomQuality} />
+          </div>
+          {customQuality && (
+            <div className="flex items-center gap-2">
+              <Slider
+                value={[quality]}
+                onValueChange={([value]) => setQuality(value)}
+                min={10}
+                max={100}
+                step={1}
+                className="flex-1"
+              />
+              <span className="w-8 text-right text-xs font-mono">{quality}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="override-scale" className="text-xs">
+            {en.results.override.scale}
+          </Label>
+          <Switch id="override-scale" checked={customScale} onCheckedChange={setCustomScale} />
+        </div>
+        {customScale && (
+          <div className="flex items-center gap-2">
+            <Slider
+              value={[scale]}
+              onValueChange={([value]) => setScale(value)}
+              min={5}
+              max={100}
+              step={5}
+              className="flex-1"
+            />
+            <span className="w-10 text-right text-xs font-mono">{scale}%</span>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">{en.results.override.lossless}</Label>
+        <ChoiceRow<LosslessChoice>
+          choices={['inherit', 'on', 'off']}
+          value={lossless}
+          label={(choice) => en.results.override.losslessChoices[choice]}
+          onChange={setLossless}
+        />
+        {lossless === 'on' && !formatInfo.supportsLossless && (
+          <p className="text-[10px] text-amber-500/80">
+            {en.results.override.losslessUnsupported.replace('{format}', formatInfo.label)}
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button size="sm" variant="ghost" className="flex-1" onClick={() => onApply(null)} disabled={!override}>
+          <RotateCcw className="w-3.5 h-3.5" />
+          <span className="ml-1">{en.results.override.reset}</span>
+        </Button>
+        <Button size="sm" className="flex-1" onClick={handleApply}>
+          <Check className="w-3.5 h-3.5" />
+          <span className="ml-1">{en.results.override.apply}</span>
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useRef, useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Slider } from '@/components/ui/slider'
 import { Switch } from '@/components/ui/switch'
@@ -7,13 +7,28 @@ import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
-import { HelpCircle, Settings2, RotateCcw, Image, Globe, Sparkles, Zap, ChevronDown, ArrowLeftRight, ArrowUpDown, Maximize2 } from 'lucide-react'
-import { ConversionSettings, DEFAULT_SETTINGS, DEFAULT_RESIZE, QualityPreset, ResizeMode, ResizeSettings, applyPreset } from '@/lib/converter'
+import { HelpCircle, Settings2, RotateCcw, Image, Globe, Sparkles, Zap, ChevronDown, ArrowLeftRight, ArrowUpDown, Maximize2, Shrink, Crop, MoveDiagonal, Minimize2, Upload } from 'lucide-react'
+import { AlphaSettings, ColorManagement, ConversionSettings, DenoiseParams, DEFAULT_SETTINGS, DEFAULT_RESIZE, MetadataMode, PerceptualMetric, PerceptualTargetSettings, QualityMode, QualityPreset, Resampler, ResizeMode, ResizeSettings, ResponsiveSettings, QualityFloorSettings, Rotation, SharpenParams, TargetSizeSettings, ToneAdjustments, TransformSettings, WatermarkAnchor, WatermarkBlendMode, WatermarkKind, WatermarkSettings, MAX_STRAIGHTEN_ANGLE, applyPreset, resetSettings } from '@/lib/converter'
+import { resolveDenoiseParams, resolveSharpenParams } from '@/lib/luminance-filters'
+import { isNeutralAdjustments } from '@/lib/tone-adjustments'
+import { getWatermarkAssetUrl, loadWatermarkAsset } from '@/lib/watermark'
+import { FILENAME_TOKENS, findUnknownToken, renderFileName } from '@/lib/filename-template'
+import { FormatOptions, OUTPUT_FORMATS, OUTPUT_FORMAT_ORDER, OutputFormat } from '@/lib/formats'
 import en from '@/i18n/en.json'
 
+/**
+ * Whether every field of a flat settings group equals its default
+ */
+function matchesDefault<T extends object>(value: T, defaults: T): boolean {
+  return (Object.keys(defaults) as (keyof T)[]).every(key => value[key] === defaults[key])
+}
+
 interface SettingsPanelProps {
   settings: ConversionSettings
   onChange: (settings: ConversionSettings) => void
+  concurrency?: number
+  onConcurrencyChange?: (concurrency: number) => void
+  encodableFormats?: OutputFormat[]
   disabled?: boolean
 }
 
@@ -57,7 +72,8 @@ function SliderWithInput({
 
   const handleInputBlur = () => {
     setIsFocused(false)
-    const newValue = parseInt(inputValue, 10)
+    // Fractional steps (e.g. gamma) keep decimals
+    const newValue = step < 1 ? parseFloat(inputValue) : parseInt(inputValue, 10)
     if (isNaN(newValue) || newValue < min) {
       onChange(min)
       setInputValue(min.toString())
@@ -166,7 +182,8 @@ function NumberInput({
 
   const handleInputBlur = () => {
     setIsFocused(false)
-    const newValue = parseInt(inputValue, 10)
+    // Fractional steps (e.g. SSIM) keep decimals, everything else is whole pixels/KB
+    const newValue = step < 1 ? parseFloat(inputValue) : parseInt(inputValue, 10)
     if (isNaN(newValue) || newValue < min) {
       onChange(min)
       setInputValue(min.toString())
@@ -205,6 +222,59 @@ function NumberInput({
   )
 }
 
+interface FilterParamInputProps {
+  label: string
+  value: number | null   // null = follows the slider
+  autoValue?: number     // shown while following the slider; omit for fields without auto
+  min: number
+  max: number
+  step?: number
+  unit?: string
+  disabled?: boolean
+  onChange: (value: number | null) => void
+}
+
+/**
+ * One advanced filter parameter, optionally driven by its macro slider
+ */
+function FilterParamInput({ label, value, autoValue, min, max, step = 1, unit = 'px', disabled, onChange }: FilterParamInputProps) {
+  const isAuto = value === null
+  const shown = value ?? autoValue ?? min
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <div className="flex items-center gap-1.5">
+        {autoValue !== undefined && (
+          <button
+            onClick={() => onChange(isAuto ? Math.round(autoValue / step) * step : null)}
+            disabled={disabled}
+            className={`
+              px-1.5 py-0.5 rounded text-[10px] transition-all
+              ${isAuto 
+                ? 'bg-primary text-primary-foreground' 
+                : 'bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground'
+              }
+              ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+            `}
+          >
+            {en.settings.advanced.auto}
+          </button>
+        )}
+        <NumberInput
+          value={Number(shown.toFixed(2))}
+          min={min}
+          max={max}
+          step={step}
+          unit={unit}
+          disabled={disabled || isAuto}
+          onChange={onChange}
+        />
+      </div>
+    </div>
+  )
+}
+
 interface PresetButtonProps {
   preset: QualityPreset
   currentPreset: QualityPreset
@@ -279,145 +349,656 @@ function ResizeModeButton({ mode, currentMode, label, icon, onClick, disabled }:
   )
 }
 
-interface PercentageInputButtonProps {
-  value: number
-  isActive: boolean
+interface FormatButtonProps {
+  format: OutputFormat
+  currentFormat: OutputFormat
+  supported: boolean
   onClick: () => void
-  onChange: (value: number) => void
   disabled?: boolean
 }
 
-function PercentageInputButton({ value, isActive, onClick, onChange, disabled }: PercentageInputButtonProps) {
-  const [inputValue, setInputValue] = useState(value.toString())
-  const [isFocused, setIsFocused] = useState(false)
+function FormatButton({ format, currentFormat, supported, onClick, disabled }: FormatButtonProps) {
+  const isActive = format === currentFormat
+  const button = (
+    <button
+      onClick={onClick}
+      disabled={disabled || !supported}
+      className={`
+        flex-1 px-2 py-1 rounded text-xs font-medium transition-all
+        ${isActive 
+          ? 'bg-primary text-primary-foreground' 
+          : 'bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground'
+        }
+        ${disabled || !supported ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+      `}
+    >
+      {OUTPUT_FORMATS[format].label}
+    </button>
+  )
 
-  if (!isFocused && inputValue !== value.toString()) {
-    setInputValue(value.toString())
-  }
+  if (supported) return button
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setInputValue(e.target.value)
-  }
+  // Disabled buttons swallow pointer events, so wrap for the tooltip
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="flex-1 flex">{button}</span>
+      </TooltipTrigger>
+      <TooltipContent side="bottom">
+        <p className="text-xs">{en.settings.format.unsupported}</p>
+      </TooltipContent>
+    </Tooltip>
+  )
+}
 
-  const handleInputBlur = () => {
-    setIsFocused(false)
-    const newValue = parseInt(inputValue, 10)
-    if (isNaN(newValue) || newValue < 1) {
-      onChange(1)
-      setInputValue('1')
-    } else if (newValue > 100) {
-      onChange(100)
-      setInputValue('100')
-    } else {
-      onChange(newValue)
-      setInputValue(newValue.toString())
-    }
-  }
+interface WidthListInputProps {
+  id: string
+  widths: number[]
+  disabled?: boolean
+  onChange: (widths: number[]) => void
+}
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
-      e.currentTarget.blur()
-    }
+/**
+ * Comma-separated list of pixel widths, applied on blur or Enter
+ */
+function WidthListInput({ id, widths, disabled, onChange }: WidthListInputProps) {
+  const [inputValue, setInputValue] = useState(widths.join(', '))
+  const [isFocused, setIsFocused] = useState(false)
+
+  if (!isFocused && inputValue !== widths.join(', ')) {
+    setInputValue(widths.join(', '))
   }
 
-  const handleClick = () => {
-    if (!isActive) {
-      onClick()
+  const commit = () => {
+    const parsed = inputValue
+      .split(/[\s,]+/)
+      .map(part => parseInt(part, 10))
+      .filter(width => !isNaN(width) && width > 0 && width <= 10000)
+    if (parsed.length > 0) {
+      onChange([...new Set(parsed)].sort((a, b) => a - b))
     }
   }
 
   return (
-    <div
-      onClick={handleClick}
+    <Input
+      id={id}
+      value={inputValue}
+      onChange={(e) => setInputValue(e.target.value)}
+      onFocus={() => setIsFocused(true)}
+      onBlur={() => {
+        setIsFocused(false)
+        commit()
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur()
+      }}
+      disabled={disabled}
+      className="h-8 text-xs font-mono"
+    />
+  )
+}
+
+interface OptionSwitchProps {
+  id: string
+  label: string
+  tooltip: string
+  checked: boolean
+  onCheckedChange: (checked: boolean) => void
+  disabled?: boolean
+}
+
+function OptionSwitch({ id, label, tooltip, checked, onCheckedChange, disabled }: OptionSwitchProps) {
+  return (
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-2">
+        <Label htmlFor={id} className="text-xs text-muted-foreground">
+          {label}
+        </Label>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <HelpCircle className="w-3 h-3 text-muted-foreground cursor-help hover:text-foreground transition-colors" />
+          </TooltipTrigger>
+          <TooltipContent side="right" className="max-w-[220px]">
+            <p className="text-xs">{tooltip}</p>
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      <Switch
+        id={id}
+        checked={checked}
+        onCheckedChange={onCheckedChange}
+        disabled={disabled}
+      />
+    </div>
+  )
+}
+
+interface QualityModeButtonProps {
+  mode: QualityMode
+  currentMode: QualityMode
+  label: string
+  onClick: () => void
+  disabled?: boolean
+}
+
+function QualityModeButton({ mode, currentMode, label, onClick, disabled }: QualityModeButtonProps) {
+  const isActive = mode === currentMode
+  
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
       className={`
-        flex items-center gap-0 rounded text-xs transition-all overflow-hidden
+        flex-1 px-2 py-1 rounded text-xs transition-all
         ${isActive 
-          ? 'ring-2 ring-primary ring-offset-1 ring-offset-background' 
-          : 'bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground cursor-pointer'
+          ? 'bg-primary text-primary-foreground' 
+          : 'bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground'
         }
-        ${disabled ? 'opacity-50 cursor-not-allowed' : ''}
+        ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
       `}
     >
-      <input
-        type="number"
-        value={inputValue}
-        min={1}
-        max={100}
-        disabled={disabled}
-        onChange={handleInputChange}
-        onBlur={handleInputBlur}
-        onFocus={() => setIsFocused(true)}
-        onKeyDown={handleKeyDown}
-        onClick={(e) => {
-          e.stopPropagation()
-          if (!isActive) onClick()
-        }}
-        className={`
-          w-10 py-1 text-center text-xs font-mono outline-none 
-          [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none
-          ${isActive 
-            ? 'bg-background text-foreground' 
-            : 'bg-transparent'
-          }
-        `}
-      />
-      <span className={`
-        px-1.5 py-1 text-xs font-medium
+      {label}
+    </button>
+  )
+}
+
+interface ResamplerButtonProps {
+  resampler: Resampler
+  currentResampler: Resampler
+  label: string
+  onClick: () => void
+  disabled?: boolean
+}
+
+function ResamplerButton({ resampler, currentResampler, label, onClick, disabled }: ResamplerButtonProps) {
+  const isActive = resampler === currentResampler
+  
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`
+        flex-1 px-2 py-1 rounded text-xs transition-all
         ${isActive 
           ? 'bg-primary text-primary-foreground' 
-          : ''
+          : 'bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground'
         }
-      `}>%</span>
-    </div>
+        ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+      `}
+    >
+      {label}
+    </button>
   )
 }
 
-export function SettingsPanel({ settings, onChange, disabled }: SettingsPanelProps) {
-  const [advancedOpen, setAdvancedOpen] = useState(false)
+const RESAMPLER_ORDER: Resampler[] = ['browser', 'lanczos3', 'mitchell', 'box']
 
-  const isDefault = 
-    settings.quality === DEFAULT_SETTINGS.quality &&
-    settings.resize.mode === DEFAULT_RESIZE.mode &&
-    settings.resize.percentage === DEFAULT_RESIZE.percentage &&
-    settings.lossless === DEFAULT_SETTINGS.lossless &&
-    settings.sharpen === DEFAULT_SETTINGS.sharpen &&
-    settings.denoise === DEFAULT_SETTINGS.denoise &&
-    settings.preset === DEFAULT_SETTINGS.preset
+interface PerceptualMetricButtonProps {
+  metric: PerceptualMetric
+  currentMetric: PerceptualMetric
+  label: string
+  onClick: () => void
+  disabled?: boolean
+}
 
-  const handleReset = () => {
-    onChange(DEFAULT_SETTINGS)
-  }
+function PerceptualMetricButton({ metric, currentMetric, label, onClick, disabled }: PerceptualMetricButtonProps) {
+  const isActive = metric === currentMetric
+  
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`
+        flex-1 px-2 py-1 rounded text-xs transition-all
+        ${isActive 
+          ? 'bg-primary text-primary-foreground' 
+          : 'bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground'
+        }
+        ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+      `}
+    >
+      {label}
+    </button>
+  )
+}
 
-  const handlePresetChange = (preset: QualityPreset) => {
-    onChange(applyPreset(preset, settings))
-  }
+const PERCEPTUAL_METRIC_ORDER: PerceptualMetric[] = ['ssim', 'msSsim']
 
-  const handleSettingChange = (newSettings: Partial<ConversionSettings>) => {
-    // When manually changing quality settings, switch to custom preset
-    onChange({ 
-      ...settings, 
-      ...newSettings, 
-      preset: 'custom' as QualityPreset 
-    })
-  }
+interface MetadataModeButtonProps {
+  mode: MetadataMode
+  currentMode: MetadataMode
+  label: string
+  onClick: () => void
+  disabled?: boolean
+}
 
-  const handleResizeChange = (resizeUpdate: Partial<ResizeSettings>) => {
-    // Resize changes do NOT affect preset
-    onChange({
-      ...settings,
-      resize: { ...settings.resize, ...resizeUpdate }
-    })
-  }
+function MetadataModeButton({ mode, currentMode, label, onClick, disabled }: MetadataModeButtonProps) {
+  const isActive = mode === currentMode
+  
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`
+        flex-1 px-2 py-1 rounded text-xs transition-all
+        ${isActive 
+          ? 'bg-primary text-primary-foreground' 
+          : 'bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground'
+        }
+        ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+      `}
+    >
+      {label}
+    </button>
+  )
+}
 
+const METADATA_MODE_ORDER: MetadataMode[] = ['keepAll', 'copyrightOnly', 'strip']
+
+interface ColorManagementButtonProps {
+  mode: ColorManagement
+  currentMode: ColorManagement
+  label: string
+  onClick: () => void
+  disabled?: boolean
+}
+
+function ColorManagementButton({ mode, currentMode, label, onClick, disabled }: ColorManagementButtonProps) {
+  const isActive = mode === currentMode
+  
   return (
-    <Card className="border-border/50">
-      <CardHeader className="pb-4">
-        <div className="flex items-center justify-between">
-          <CardTitle className="flex items-center gap-2 text-base font-semibold">
-            <Settings2 className="w-4 h-4 text-primary" />
-            {en.settings.title}
-          </CardTitle>
-          <Tooltip>
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`
+        flex-1 px-2 py-1 rounded text-xs transition-all
+        ${isActive 
+          ? 'bg-primary text-primary-foreground' 
+          : 'bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground'
+        }
+        ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+      `}
+    >
+      {label}
+    </button>
+  )
+}
+
+interface RotationButtonProps {
+  rotation: Rotation
+  currentRotation: Rotation
+  onClick: () => void
+  disabled?: boolean
+}
+
+function RotationButton({ rotation, currentRotation, onClick, disabled }: RotationButtonProps) {
+  const isActive = rotation === currentRotation
+  
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`
+        flex-1 px-2 py-1 rounded text-xs transition-all
+        ${isActive 
+          ? 'bg-primary text-primary-foreground' 
+          : 'bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground'
+        }
+        ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+      `}
+    >
+      {rotation}°
+    </button>
+  )
+}
+
+interface WatermarkKindButtonProps {
+  kind: WatermarkKind
+  currentKind: WatermarkKind
+  label: string
+  onClick: () => void
+  disabled?: boolean
+}
+
+function WatermarkKindButton({ kind, currentKind, label, onClick, disabled }: WatermarkKindButtonProps) {
+  const isActive = kind === currentKind
+  
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`
+        flex-1 px-2 py-1 rounded text-xs transition-all
+        ${isActive 
+          ? 'bg-primary text-primary-foreground' 
+          : 'bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground'
+        }
+        ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+      `}
+    >
+      {label}
+    </button>
+  )
+}
+
+interface BlendModeButtonProps {
+  blendMode: WatermarkBlendMode
+  currentBlendMode: WatermarkBlendMode
+  label: string
+  onClick: () => void
+  disabled?: boolean
+}
+
+function BlendModeButton({ blendMode, currentBlendMode, label, onClick, disabled }: BlendModeButtonProps) {
+  const isActive = blendMode === currentBlendMode
+  
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`
+        flex-1 px-2 py-1 rounded text-xs transition-all
+        ${isActive 
+          ? 'bg-primary text-primary-foreground' 
+          : 'bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground'
+        }
+        ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+      `}
+    >
+      {label}
+    </button>
+  )
+}
+
+const WATERMARK_ANCHORS: WatermarkAnchor[] = [
+  'topLeft', 'top', 'topRight',
+  'left', 'center', 'right',
+  'bottomLeft', 'bottom', 'bottomRight'
+]
+
+const BLEND_MODES: WatermarkBlendMode[] = ['normal', 'multiply', 'screen', 'overlay', 'softLight']
+
+interface PercentageInputButtonProps {
+  value: number
+  isActive: boolean
+  onClick: () => void
+  onChange: (value: number) => void
+  disabled?: boolean
+}
+
+function PercentageInputButton({ value, isActive, onClick, onChange, disabled }: PercentageInputButtonProps) {
+  const [inputValue, setInputValue] = useState(value.toString())
+  const [isFocused, setIsFocused] = useState(false)
+
+  if (!isFocused && inputValue !== value.toString()) {
+    setInputValue(value.toString())
+  }
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setInputValue(e.target.value)
+  }
+
+  const handleInputBlur = () => {
+    setIsFocused(false)
+    const newValue = parseInt(inputValue, 10)
+    if (isNaN(newValue) || newValue < 1) {
+      onChange(1)
+      setInputValue('1')
+    } else if (newValue > 100) {
+      onChange(100)
+      setInputValue('100')
+    } else {
+      onChange(newValue)
+      setInputValue(newValue.toString())
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.currentTarget.blur()
+    }
+  }
+
+  const handleClick = () => {
+    if (!isActive) {
+      onClick()
+    }
+  }
+
+  return (
+    <div
+      onClick={handleClick}
+      className={`
+        flex items-center gap-0 rounded text-xs transition-all overflow-hidden
+        ${isActive 
+          ? 'ring-2 ring-primary ring-offset-1 ring-offset-background' 
+          : 'bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground cursor-pointer'
+        }
+        ${disabled ? 'opacity-50 cursor-not-allowed' : ''}
+      `}
+    >
+      <input
+        type="number"
+        value={inputValue}
+        min={1}
+        max={100}
+        disabled={disabled}
+        onChange={handleInputChange}
+        onBlur={handleInputBlur}
+        onFocus={() => setIsFocused(true)}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => {
+          e.stopPropagation()
+          if (!isActive) onClick()
+        }}
+        className={`
+          w-10 py-1 text-center text-xs font-mono outline-none 
+          [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none
+          ${isActive 
+            ? 'bg-background text-foreground' 
+            : 'bg-transparent'
+          }
+        `}
+      />
+      <span className={`
+        px-1.5 py-1 text-xs font-medium
+        ${isActive 
+          ? 'bg-primary text-primary-foreground' 
+          : ''
+        }
+      `}>%</span>
+    </div>
+  )
+}
+
+export function SettingsPanel({ settings, onChange, concurrency, onConcurrencyChange, encodableFormats = OUTPUT_FORMAT_ORDER, disabled }: SettingsPanelProps) {
+  const [advancedOpen, setAdvancedOpen] = useState(false)
+  const [watermarkError, setWatermarkError] = useState<string | null>(null)
+  const watermarkInputRef = useRef<HTMLInputElement>(null)
+
+  const formatInfo = OUTPUT_FORMATS[settings.outputFormat]
+
+  const isDefault = 
+    settings.outputFormat === DEFAULT_SETTINGS.outputFormat &&
+    matchesDefault(settings.formatOptions.webp, DEFAULT_SETTINGS.formatOptions.webp) &&
+    matchesDefault(settings.formatOptions.jpeg, DEFAULT_SETTINGS.formatOptions.jpeg) &&
+    matchesDefault(settings.formatOptions.png, DEFAULT_SETTINGS.formatOptions.png) &&
+    settings.quality === DEFAULT_SETTINGS.quality &&
+    settings.qualityMode === DEFAULT_SETTINGS.qualityMode &&
+    matchesDefault(settings.targetSize, DEFAULT_SETTINGS.targetSize) &&
+    matchesDefault(settings.perceptualTarget, DEFAULT_SETTINGS.perceptualTarget) &&
+    settings.resize.mode === DEFAULT_RESIZE.mode &&
+    settings.resize.percentage === DEFAULT_RESIZE.percentage &&
+    settings.resize.noUpscale === DEFAULT_RESIZE.noUpscale &&
+    settings.resize.resampler === DEFAULT_RESIZE.resampler &&
+    settings.transform.rotation === DEFAULT_SETTINGS.transform.rotation &&
+    settings.transform.angle === DEFAULT_SETTINGS.transform.angle &&
+    settings.transform.flipHorizontal === DEFAULT_SETTINGS.transform.flipHorizontal &&
+    settings.transform.flipVertical === DEFAULT_SETTINGS.transform.flipVertical &&
+    settings.qualityFloor.enabled === DEFAULT_SETTINGS.qualityFloor.enabled &&
+    settings.responsive.enabled === DEFAULT_SETTINGS.responsive.enabled &&
+    settings.alpha.flatten === DEFAULT_SETTINGS.alpha.flatten &&
+    settings.alpha.trim === DEFAULT_SETTINGS.alpha.trim &&
+    settings.alpha.cleanTransparentRgb === DEFAULT_SETTINGS.alpha.cleanTransparentRgb &&
+    settings.metadata.mode === DEFAULT_SETTINGS.metadata.mode &&
+    settings.metadata.privacy === DEFAULT_SETTINGS.metadata.privacy &&
+    settings.colorManagement === DEFAULT_SETTINGS.colorManagement &&
+    settings.lossless === DEFAULT_SETTINGS.lossless &&
+    settings.sharpen === DEFAULT_SETTINGS.sharpen &&
+    settings.denoise === DEFAULT_SETTINGS.denoise &&
+    settings.chromaDenoise === DEFAULT_SETTINGS.chromaDenoise &&
+    settings.fileNameTemplate === DEFAULT_SETTINGS.fileNameTemplate &&
+    isNeutralAdjustments(settings.adjustments) &&
+    settings.sharpenParams.radius === DEFAULT_SETTINGS.sharpenParams.radius &&
+    settings.sharpenParams.amount === DEFAULT_SETTINGS.sharpenParams.amount &&
+    settings.sharpenParams.threshold === DEFAULT_SETTINGS.sharpenParams.threshold &&
+    settings.denoiseParams.radius === DEFAULT_SETTINGS.denoiseParams.radius &&
+    settings.denoiseParams.rangeSigma === DEFAULT_SETTINGS.denoiseParams.rangeSigma &&
+    settings.denoiseParams.spatialSigma === DEFAULT_SETTINGS.denoiseParams.spatialSigma &&
+    settings.preset === DEFAULT_SETTINGS.preset
+
+  const handleReset = () => {
+    onChange(resetSettings(settings))
+  }
+
+  const handlePresetChange = (preset: QualityPreset) => {
+    onChange(applyPreset(preset, settings))
+  }
+
+  const handleSettingChange = (newSettings: Partial<ConversionSettings>) => {
+    // When manually changing quality settings, switch to custom preset
+    onChange({ 
+      ...settings, 
+      ...newSettings, 
+      preset: 'custom' as QualityPreset 
+    })
+  }
+
+  const handleSharpenParamsChange = (paramsUpdate: Partial<SharpenParams>) => {
+    handleSettingChange({ sharpenParams: { ...settings.sharpenParams, ...paramsUpdate } })
+  }
+
+  const handleDenoiseParamsChange = (paramsUpdate: Partial<DenoiseParams>) => {
+    handleSettingChange({ denoiseParams: { ...settings.denoiseParams, ...paramsUpdate } })
+  }
+
+  const handleAdjustmentsChange = (adjustmentsUpdate: Partial<ToneAdjustments>) => {
+    handleSettingChange({ adjustments: { ...settings.adjustments, ...adjustmentsUpdate } })
+  }
+
+  const handleFormatChange = (outputFormat: OutputFormat) => {
+    // Output format is independent of quality presets
+    onChange({ ...settings, outputFormat })
+  }
+
+  const handleFormatOptionsChange = <F extends keyof FormatOptions>(format: F, update: Partial<FormatOptions[F]>) => {
+    onChange({
+      ...settings,
+      formatOptions: {
+        ...settings.formatOptions,
+        [format]: { ...settings.formatOptions[format], ...update }
+      }
+    })
+  }
+
+  const handleQualityModeChange = (qualityMode: QualityMode) => {
+    // Like resize, the compression target is independent of presets
+    onChange({ ...settings, qualityMode })
+  }
+
+  const handlePerceptualTargetChange = (targetUpdate: Partial<PerceptualTargetSettings>) => {
+    onChange({
+      ...settings,
+      perceptualTarget: { ...settings.perceptualTarget, ...targetUpdate }
+    })
+  }
+
+  const handleTargetSizeChange = (targetUpdate: Partial<TargetSizeSettings>) => {
+    onChange({
+      ...settings,
+      targetSize: { ...settings.targetSize, ...targetUpdate }
+    })
+  }
+
+  const handleMetadataModeChange = (mode: MetadataMode) => {
+    // Metadata handling is independent of presets
+    onChange({ ...settings, metadata: { ...settings.metadata, mode } })
+  }
+
+  const handleQualityFloorChange = (floorUpdate: Partial<QualityFloorSettings>) => {
+    // The floor only flags results, so presets leave it alone
+    onChange({ ...settings, qualityFloor: { ...settings.qualityFloor, ...floorUpdate } })
+  }
+
+  const handleResponsiveChange = (responsiveUpdate: Partial<ResponsiveSettings>) => {
+    // Responsive sets are independent of presets
+    onChange({ ...settings, responsive: { ...settings.responsive, ...responsiveUpdate } })
+  }
+
+  const handleTransformChange = (transformUpdate: Partial<TransformSettings>) => {
+    // Geometry is independent of presets
+    onChange({ ...settings, transform: { ...settings.transform, ...transformUpdate } })
+  }
+
+  const handleFileNameTemplateChange = (fileNameTemplate: string) => {
+    // Names only matter when downloading, presets leave them alone
+    onChange({ ...settings, fileNameTemplate })
+  }
+
+  const unknownFileNameToken = findUnknownToken(settings.fileNameTemplate)
+  const fileNamePreview = renderFileName(settings.fileNameTemplate, {
+    name: 'IMG_0042.jpg',
+    baseName: 'IMG',
+    frameNumber: 42,
+    width: 1920,
+    height: 1280,
+    quality: settings.quality,
+    preset: settings.preset,
+    hash: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+    format: settings.outputFormat
+  })
+
+  const handleWatermarkChange = (watermarkUpdate: Partial<WatermarkSettings>) => {
+    // Branding is independent of presets
+    onChange({ ...settings, watermark: { ...settings.watermark, ...watermarkUpdate } })
+  }
+
+  const handleWatermarkFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    
+    try {
+      const image = await loadWatermarkAsset(file)
+      setWatermarkError(null)
+      handleWatermarkChange({ image, kind: 'image' })
+    } catch {
+      setWatermarkError(en.settings.watermark.loadFailed)
+    }
+  }
+
+  const handleAlphaChange = (alphaUpdate: Partial<AlphaSettings>) => {
+    // Transparency handling is independent of presets
+    onChange({ ...settings, alpha: { ...settings.alpha, ...alphaUpdate } })
+  }
+
+  const handleResizeChange = (resizeUpdate: Partial<ResizeSettings>) => {
+    // Resize changes do NOT affect preset
+    onChange({
+      ...settings,
+      resize: { ...settings.resize, ...resizeUpdate }
+    })
+  }
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-base font-semibold">
+            <Settings2 className="w-4 h-4 text-primary" />
+            {en.settings.title}
+          </CardTitle>
+          <Tooltip>
             <TooltipTrigger asChild>
               <Button
                 variant="ghost"
@@ -430,197 +1011,1138 @@ export function SettingsPanel({ settings, onChange, disabled }: SettingsPanelPro
               </Button>
             </TooltipTrigger>
             <TooltipContent side="left">
-              <p className="text-xs">Reset to defaults</p>
+              <p className="text-xs">{en.settings.reset}</p>
             </TooltipContent>
           </Tooltip>
         </div>
-      </CardHeader>
-      <CardContent className="space-y-6">
-        {/* Quality Presets */}
-        <div className="space-y-3">
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Quality Presets */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm font-medium">
+              {en.settings.presets.label}
+            </Label>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <HelpCircle className="w-3.5 h-3.5 text-muted-foreground cursor-help hover:text-foreground transition-colors" />
+              </TooltipTrigger>
+              <TooltipContent side="right" className="max-w-[220px]">
+                <p className="text-xs">{en.settings.presets.tooltip}</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <div className="grid grid-cols-5 gap-2">
+            <PresetButton
+              preset="custom"
+              currentPreset={settings.preset}
+              label={en.settings.presets.custom}
+              description={en.settings.presets.customDesc}
+              icon={<Settings2 className="w-4 h-4" />}
+              onClick={() => handlePresetChange('custom')}
+              disabled={disabled}
+            />
+            <PresetButton
+              preset="photo"
+              currentPreset={settings.preset}
+              label={en.settings.presets.photo}
+              description={en.settings.presets.photoDesc}
+              icon={<Image className="w-4 h-4" />}
+              onClick={() => handlePresetChange('photo')}
+              disabled={disabled}
+            />
+            <PresetButton
+              preset="web"
+              currentPreset={settings.preset}
+              label={en.settings.presets.web}
+              description={en.settings.presets.webDesc}
+              icon={<Globe className="w-4 h-4" />}
+              onClick={() => handlePresetChange('web')}
+              disabled={disabled}
+            />
+            <PresetButton
+              preset="crisp"
+              currentPreset={settings.preset}
+              label={en.settings.presets.crisp}
+              description={en.settings.presets.crispDesc}
+              icon={<Sparkles className="w-4 h-4" />}
+              onClick={() => handlePresetChange('crisp')}
+              disabled={disabled}
+            />
+            <PresetButton
+              preset="webflowLike"
+              currentPreset={settings.preset}
+              label={en.settings.presets.webflowLike}
+              description={en.settings.presets.webflowLikeDesc}
+              icon={<Zap className="w-4 h-4" />}
+              onClick={() => handlePresetChange('webflowLike')}
+              disabled={disabled}
+              recommended
+            />
+          </div>
+        </div>
+
+        {/* Output Format */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm font-medium">
+              {en.settings.format.label}
+            </Label>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <HelpCircle className="w-3.5 h-3.5 text-muted-foreground cursor-help hover:text-foreground transition-colors" />
+              </TooltipTrigger>
+              <TooltipContent side="right" className="max-w-[220px]">
+                <p className="text-xs">{en.settings.format.tooltip}</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <div className="flex gap-1.5">
+            {OUTPUT_FORMAT_ORDER.map(format => (
+              <FormatButton
+                key={format}
+                format={format}
+                currentFormat={settings.outputFormat}
+                supported={encodableFormats.includes(format)}
+                onClick={() => handleFormatChange(format)}
+                disabled={disabled}
+              />
+            ))}
+          </div>
+
+          {/* Format-specific options */}
+          {settings.outputFormat === 'webp' && (
+            <OptionSwitch
+              id="webp-libwebp"
+              label={en.settings.format.webp.libwebp}
+              tooltip={en.settings.format.webp.libwebpTooltip}
+              checked={settings.formatOptions.webp.encoder === 'libwebp'}
+              onCheckedChange={(checked) => handleFormatOptionsChange('webp', { encoder: checked ? 'libwebp' : 'browser' })}
+              disabled={disabled}
+            />
+          )}
+
+          {settings.outputFormat === 'jpeg' && (
+            <div className="flex flex-col gap-2">
+              <OptionSwitch
+                id="jpeg-progressive"
+                label={en.settings.format.jpeg.progressive}
+                tooltip={en.settings.format.jpeg.progressiveTooltip}
+                checked={settings.formatOptions.jpeg.progressive}
+                onCheckedChange={(checked) => handleFormatOptionsChange('jpeg', { progressive: checked })}
+                disabled={disabled}
+              />
+              <OptionSwitch
+                id="jpeg-subsampling"
+                label={en.settings.format.jpeg.chromaSubsampling}
+                tooltip={en.settings.format.jpeg.chromaSubsamplingTooltip}
+                checked={settings.formatOptions.jpeg.chromaSubsampling}
+                onCheckedChange={(checked) => handleFormatOptionsChange('jpeg', { chromaSubsampling: checked })}
+                disabled={disabled}
+              />
+            </div>
+          )}
+
+          {settings.outputFormat === 'png' && (
+            <div className="flex flex-col gap-3">
+              <SliderWithInput
+                id="png-level"
+                label={en.settings.format.png.level}
+                tooltip={en.settings.format.png.levelTooltip}
+                value={settings.formatOptions.png.level}
+                min={1}
+                max={6}
+                step={1}
+                unit=""
+                disabled={disabled}
+                onChange={(value) => handleFormatOptionsChange('png', { level: value })}
+              />
+              <OptionSwitch
+                id="png-interlace"
+                label={en.settings.format.png.interlace}
+                tooltip={en.settings.format.png.interlaceTooltip}
+                checked={settings.formatOptions.png.interlace}
+                onCheckedChange={(checked) => handleFormatOptionsChange('png', { interlace: checked })}
+                disabled={disabled}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Compression Target */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm font-medium">
+              {en.settings.qualityMode.label}
+            </Label>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <HelpCircle className="w-3.5 h-3.5 text-muted-foreground cursor-help hover:text-foreground transition-colors" />
+              </TooltipTrigger>
+              <TooltipContent side="right" className="max-w-[220px]">
+                <p className="text-xs">{en.settings.qualityMode.tooltip}</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <div className="flex gap-1.5">
+            <QualityModeButton
+              mode="fixed"
+              currentMode={settings.qualityMode}
+              label={en.settings.qualityMode.modes.fixed}
+              onClick={() => handleQualityModeChange('fixed')}
+              disabled={disabled}
+            />
+            <QualityModeButton
+              mode="targetSize"
+              currentMode={settings.qualityMode}
+              label={en.settings.qualityMode.modes.targetSize}
+              onClick={() => handleQualityModeChange('targetSize')}
+              disabled={disabled}
+            />
+            <QualityModeButton
+              mode="perceptual"
+              currentMode={settings.qualityMode}
+              label={en.settings.qualityMode.modes.perceptual}
+              onClick={() => handleQualityModeChange('perceptual')}
+              disabled={disabled}
+            />
+          </div>
+
+          {settings.qualityMode === 'targetSize' && (
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center gap-2">
+                <Label className="text-xs text-muted-foreground">{en.settings.targetSize.label}</Label>
+                <NumberInput
+                  value={Math.round(settings.targetSize.maxBytes / 1024)}
+                  min={1}
+                  max={100000}
+                  unit="KB"
+                  disabled={disabled}
+                  onChange={(value) => handleTargetSizeChange({ maxBytes: value * 1024 })}
+                />
+              </div>
+              <OptionSwitch
+                id="target-allow-resize"
+                label={en.settings.targetSize.allowResize}
+                tooltip={en.settings.targetSize.allowResizeTooltip}
+                checked={settings.targetSize.allowResize}
+                onCheckedChange={(checked) => handleTargetSizeChange({ allowResize: checked })}
+                disabled={disabled}
+              />
+              {settings.lossless && formatInfo.supportsLossless && (
+                <p className="text-[10px] text-amber-500/80">⚠️ {en.settings.targetSize.losslessHint}</p>
+              )}
+            </div>
+          )}
+
+          {settings.qualityMode === 'perceptual' && (
+            <div className="flex flex-col gap-2">
+              <div className="flex gap-1.5">
+                {PERCEPTUAL_METRIC_ORDER.map((metric) => (
+                  <PerceptualMetricButton
+                    key={metric}
+                    metric={metric}
+                    currentMetric={settings.perceptualTarget.metric}
+                    label={en.settings.perceptualTarget.metrics[metric]}
+                    onClick={() => handlePerceptualTargetChange({ metric })}
+                    disabled={disabled}
+                  />
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <Label className="text-xs text-muted-foreground">{en.settings.perceptualTarget.label}</Label>
+                <NumberInput
+                  value={settings.perceptualTarget.target}
+                  min={0.5}
+                  max={1}
+                  step={0.005}
+                  unit=""
+                  disabled={disabled}
+                  onChange={(target) => handlePerceptualTargetChange({ target })}
+                />
+              </div>
+              <p className="text-[10px] text-muted-foreground">{en.settings.perceptualTarget.hint}</p>
+              {settings.lossless && formatInfo.supportsLossless && (
+                <p className="text-[10px] text-amber-500/80">⚠️ {en.settings.perceptualTarget.losslessHint}</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Quality (upper bound in target size mode) */}
+        <SliderWithInput
+          id="quality"
+          label={settings.qualityMode === 'fixed' ? en.settings.quality.label : en.settings.quality.maxLabel}
+          tooltip={en.settings.quality.tooltip}
+          value={settings.quality}
+          min={10}
+          max={100}
+          step={1}
+          disabled={
+            disabled ||
+            !formatInfo.supportsQuality ||
+            (settings.lossless && formatInfo.supportsLossless && settings.qualityMode === 'fixed')
+          }
+          onChange={(value) => handleSettingChange({ quality: value })}
+        />
+
+        {/* Quality floor: flags outputs whose SSIM is too low */}
+        <div className="space-y-2">
+          <OptionSwitch
+            id="quality-floor"
+            label={en.settings.qualityFloor.label}
+            tooltip={en.settings.qualityFloor.tooltip}
+            checked={settings.qualityFloor.enabled}
+            onCheckedChange={(enabled) => handleQualityFloorChange({ enabled })}
+            disabled={disabled}
+          />
+          {settings.qualityFloor.enabled && (
+            <div className="flex items-center gap-2 pl-4">
+              <Label className="text-xs text-muted-foreground">{en.settings.qualityFloor.minSsim}:</Label>
+              <NumberInput
+                value={settings.qualityFloor.minSsim}
+                min={0.5}
+                max={1}
+                step={0.005}
+                unit=""
+                disabled={disabled}
+                onChange={(minSsim) => handleQualityFloorChange({ minSsim })}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Transform Section: applied before resizing */}
+        <div className="space-y-3 pt-2 border-t border-border/30">
           <div className="flex items-center gap-2">
             <Label className="text-sm font-medium">
-              {en.settings.presets.label}
+              {en.settings.transform.label}
             </Label>
             <Tooltip>
               <TooltipTrigger asChild>
                 <HelpCircle className="w-3.5 h-3.5 text-muted-foreground cursor-help hover:text-foreground transition-colors" />
               </TooltipTrigger>
               <TooltipContent side="right" className="max-w-[220px]">
-                <p className="text-xs">{en.settings.presets.tooltip}</p>
+                <p className="text-xs">{en.settings.transform.tooltip}</p>
               </TooltipContent>
             </Tooltip>
           </div>
-          <div className="grid grid-cols-5 gap-2">
-            <PresetButton
-              preset="custom"
-              currentPreset={settings.preset}
-              label={en.settings.presets.custom}
-              description={en.settings.presets.customDesc}
-              icon={<Settings2 className="w-4 h-4" />}
-              onClick={() => handlePresetChange('custom')}
+
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">{en.settings.transform.rotation}</Label>
+            <div className="flex gap-1">
+              {([0, 90, 180, 270] as Rotation[]).map((rotation) => (
+                <RotationButton
+                  key={rotation}
+                  rotation={rotation}
+                  currentRotation={settings.transform.rotation}
+                  onClick={() => handleTransformChange({ rotation })}
+                  disabled={disabled}
+                />
+              ))}
+            </div>
+          </div>
+
+          <OptionSwitch
+            id="transform-flip-horizontal"
+            label={en.settings.transform.flipHorizontal}
+            tooltip={en.settings.transform.flipHorizontalTooltip}
+            checked={settings.transform.flipHorizontal}
+            onCheckedChange={(flipHorizontal) => handleTransformChange({ flipHorizontal })}
+            disabled={disabled}
+          />
+          <OptionSwitch
+            id="transform-flip-vertical"
+            label={en.settings.transform.flipVertical}
+            tooltip={en.settings.transform.flipVerticalTooltip}
+            checked={settings.transform.flipVertical}
+            onCheckedChange={(flipVertical) => handleTransformChange({ flipVertical })}
+            disabled={disabled}
+          />
+
+          <div className="flex items-center gap-2">
+            <Label className="text-xs text-muted-foreground">{en.settings.transform.angle}:</Label>
+            <NumberInput
+              value={settings.transform.angle}
+              min={-MAX_STRAIGHTEN_ANGLE}
+              max={MAX_STRAIGHTEN_ANGLE}
+              step={0.1}
+              unit="°"
               disabled={disabled}
+              onChange={(angle) => handleTransformChange({ angle })}
             />
-            <PresetButton
-              preset="photo"
-              currentPreset={settings.preset}
-              label={en.settings.presets.photo}
-              description={en.settings.presets.photoDesc}
-              icon={<Image className="w-4 h-4" />}
-              onClick={() => handlePresetChange('photo')}
+          </div>
+          <p className="text-[10px] text-muted-foreground">{en.settings.transform.hint}</p>
+        </div>
+
+        {/* Resize Section */}
+        <div className="space-y-3 pt-2 border-t border-border/30">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm font-medium">
+              {en.settings.resize.label}
+            </Label>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <HelpCircle className="w-3.5 h-3.5 text-muted-foreground cursor-help hover:text-foreground transition-colors" />
+              </TooltipTrigger>
+              <TooltipContent side="right" className="max-w-[220px]">
+                <p className="text-xs">{en.settings.resize.tooltip}</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          
+          {/* Resize Mode Buttons */}
+          <div className="flex flex-wrap gap-1.5">
+            <PercentageInputButton
+              value={settings.resize.percentage}
+              isActive={settings.resize.mode === 'percentage'}
+              onClick={() => handleResizeChange({ mode: 'percentage' })}
+              onChange={(value) => handleResizeChange({ percentage: value })}
               disabled={disabled}
             />
-            <PresetButton
-              preset="web"
-              currentPreset={settings.preset}
-              label={en.settings.presets.web}
-              description={en.settings.presets.webDesc}
-              icon={<Globe className="w-4 h-4" />}
-              onClick={() => handlePresetChange('web')}
+            <ResizeModeButton
+              mode="width"
+              currentMode={settings.resize.mode}
+              label={en.settings.resize.modes.width}
+              icon={<ArrowLeftRight className="w-3 h-3" />}
+              onClick={() => handleResizeChange({ mode: 'width' })}
               disabled={disabled}
             />
-            <PresetButton
-              preset="crisp"
-              currentPreset={settings.preset}
-              label={en.settings.presets.crisp}
-              description={en.settings.presets.crispDesc}
-              icon={<Sparkles className="w-4 h-4" />}
-              onClick={() => handlePresetChange('crisp')}
+            <ResizeModeButton
+              mode="height"
+              currentMode={settings.resize.mode}
+              label={en.settings.resize.modes.height}
+              icon={<ArrowUpDown className="w-3 h-3" />}
+              onClick={() => handleResizeChange({ mode: 'height' })}
               disabled={disabled}
             />
-            <PresetButton
-              preset="webflowLike"
-              currentPreset={settings.preset}
-              label={en.settings.presets.webflowLike}
-              description={en.settings.presets.webflowLikeDesc}
-              icon={<Zap className="w-4 h-4" />}
-              onClick={() => handlePresetChange('webflowLike')}
+            <ResizeModeButton
+              mode="exact"
+              currentMode={settings.resize.mode}
+              label={en.settings.resize.modes.exact}
+              icon={<Maximize2 className="w-3 h-3" />}
+              onClick={() => handleResizeChange({ mode: 'exact' })}
+              disabled={disabled}
+            />
+            <ResizeModeButton
+              mode="contain"
+              currentMode={settings.resize.mode}
+              label={en.settings.resize.modes.contain}
+              icon={<Shrink className="w-3 h-3" />}
+              onClick={() => handleResizeChange({ mode: 'contain' })}
+              disabled={disabled}
+            />
+            <ResizeModeButton
+              mode="cover"
+              currentMode={settings.resize.mode}
+              label={en.settings.resize.modes.cover}
+              icon={<Crop className="w-3 h-3" />}
+              onClick={() => handleResizeChange({ mode: 'cover' })}
+              disabled={disabled}
+            />
+            <ResizeModeButton
+              mode="longestEdge"
+              currentMode={settings.resize.mode}
+              label={en.settings.resize.modes.longestEdge}
+              icon={<MoveDiagonal className="w-3 h-3" />}
+              onClick={() => handleResizeChange({ mode: 'longestEdge' })}
+              disabled={disabled}
+            />
+            <ResizeModeButton
+              mode="shortestEdge"
+              currentMode={settings.resize.mode}
+              label={en.settings.resize.modes.shortestEdge}
+              icon={<Minimize2 className="w-3 h-3" />}
+              onClick={() => handleResizeChange({ mode: 'shortestEdge' })}
               disabled={disabled}
-              recommended
             />
           </div>
+
+          {/* Resize Value Input based on mode */}
+          <div className="pt-2">
+            {settings.resize.mode === 'width' && (
+              <div className="flex items-center gap-2">
+                <Label className="text-xs text-muted-foreground">Width:</Label>
+                <NumberInput
+                  value={settings.resize.width}
+                  min={1}
+                  max={10000}
+                  disabled={disabled}
+                  onChange={(value) => handleResizeChange({ width: value })}
+                />
+                <span className="text-xs text-muted-foreground">(aspect ratio preserved)</span>
+              </div>
+            )}
+
+            {settings.resize.mode === 'height' && (
+              <div className="flex items-center gap-2">
+                <Label className="text-xs text-muted-foreground">Height:</Label>
+                <NumberInput
+                  value={settings.resize.height}
+                  min={1}
+                  max={10000}
+                  disabled={disabled}
+                  onChange={(value) => handleResizeChange({ height: value })}
+                />
+                <span className="text-xs text-muted-foreground">(aspect ratio preserved)</span>
+              </div>
+            )}
+
+            {settings.resize.mode === 'exact' && (
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs text-muted-foreground w-12">Width:</Label>
+                  <NumberInput
+                    value={settings.resize.width}
+                    min={1}
+                    max={10000}
+                    disabled={disabled}
+                    onChange={(value) => handleResizeChange({ width: value })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs text-muted-foreground w-12">Height:</Label>
+                  <NumberInput
+                    value={settings.resize.height}
+                    min={1}
+                    max={10000}
+                    disabled={disabled}
+                    onChange={(value) => handleResizeChange({ height: value })}
+                  />
+                </div>
+                <p className="text-[10px] text-amber-500/80">⚠️ May distort image</p>
+              </div>
+            )}
+
+            {(settings.resize.mode === 'contain' || settings.resize.mode === 'cover') && (
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs text-muted-foreground w-12">Width:</Label>
+                  <NumberInput
+                    value={settings.resize.width}
+                    min={1}
+                    max={10000}
+                    disabled={disabled}
+                    onChange={(value) => handleResizeChange({ width: value })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs text-muted-foreground w-12">Height:</Label>
+                  <NumberInput
+                    value={settings.resize.height}
+                    min={1}
+                    max={10000}
+                    disabled={disabled}
+                    onChange={(value) => handleResizeChange({ height: value })}
+                  />
+                </div>
+                <p className="text-[10px] text-muted-foreground">
+                  {settings.resize.mode === 'contain' ? en.settings.resize.hints.contain : en.settings.resize.hints.cover}
+                </p>
+              </div>
+            )}
+
+            {(settings.resize.mode === 'longestEdge' || settings.resize.mode === 'shortestEdge') && (
+              <div className="flex items-center gap-2">
+                <Label className="text-xs text-muted-foreground">Edge:</Label>
+                <NumberInput
+                  value={settings.resize.edge}
+                  min={1}
+                  max={10000}
+                  disabled={disabled}
+                  onChange={(value) => handleResizeChange({ edge: value })}
+                />
+                <span className="text-xs text-muted-foreground">(aspect ratio preserved)</span>
+              </div>
+            )}
+          </div>
+
+          <OptionSwitch
+            id="resize-no-upscale"
+            label={en.settings.resize.noUpscale}
+            tooltip={en.settings.resize.noUpscaleTooltip}
+            checked={settings.resize.noUpscale}
+            onCheckedChange={(checked) => handleResizeChange({ noUpscale: checked })}
+            disabled={disabled}
+          />
+
+          {/* Resampling filter */}
+          <div className="space-y-1.5">
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground">
+                {en.settings.resize.resampler.label}
+              </Label>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <HelpCircle className="w-3 h-3 text-muted-foreground cursor-help hover:text-foreground transition-colors" />
+                </TooltipTrigger>
+                <TooltipContent side="right" className="max-w-[220px]">
+                  <p className="text-xs">{en.settings.resize.resampler.tooltip}</p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <div className="flex gap-1.5">
+              {RESAMPLER_ORDER.map((resampler) => (
+                <ResamplerButton
+                  key={resampler}
+                  resampler={resampler}
+                  currentResampler={settings.resize.resampler}
+                  label={en.settings.resize.resampler.options[resampler]}
+                  onClick={() => handleResizeChange({ resampler })}
+                  disabled={disabled}
+                />
+              ))}
+            </div>
+          </div>
         </div>
 
-        {/* Quality */}
-        <SliderWithInput
-          id="quality"
-          label={en.settings.quality.label}
-          tooltip={en.settings.quality.tooltip}
-          value={settings.quality}
-          min={10}
-          max={100}
-          step={1}
-          disabled={disabled || settings.lossless}
-          onChange={(value) => handleSettingChange({ quality: value })}
-        />
+        {/* Responsive Set Section */}
+        <div className="space-y-3 pt-2 border-t border-border/30">
+          <OptionSwitch
+            id="responsive-enabled"
+            label={en.settings.responsive.label}
+            tooltip={en.settings.responsive.tooltip}
+            checked={settings.responsive.enabled}
+            onCheckedChange={(enabled) => handleResponsiveChange({ enabled })}
+            disabled={disabled}
+          />
+          {settings.responsive.enabled && (
+            <div className="space-y-2 pl-4">
+              <div className="flex items-center gap-2">
+                <Label htmlFor="responsive-widths" className="text-xs text-muted-foreground w-12">
+                  {en.settings.responsive.widths}:
+                </Label>
+                <WidthListInput
+                  id="responsive-widths"
+                  widths={settings.responsive.widths}
+                  disabled={disabled}
+                  onChange={(widths) => handleResponsiveChange({ widths })}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="responsive-sizes" className="text-xs text-muted-foreground w-12">
+                  {en.settings.responsive.sizes}:
+                </Label>
+                <Input
+                  id="responsive-sizes"
+                  value={settings.responsive.sizes}
+                  onChange={(e) => handleResponsiveChange({ sizes: e.target.value })}
+                  disabled={disabled}
+                  className="h-8 text-xs font-mono"
+                />
+              </div>
+              <p className="text-[10px] text-muted-foreground">{en.settings.responsive.hint}</p>
+            </div>
+          )}
+        </div>
 
-        {/* Resize Section */}
+        {/* Transparency Section */}
         <div className="space-y-3 pt-2 border-t border-border/30">
           <div className="flex items-center gap-2">
             <Label className="text-sm font-medium">
-              {en.settings.resize.label}
+              {en.settings.alpha.label}
             </Label>
             <Tooltip>
               <TooltipTrigger asChild>
                 <HelpCircle className="w-3.5 h-3.5 text-muted-foreground cursor-help hover:text-foreground transition-colors" />
               </TooltipTrigger>
               <TooltipContent side="right" className="max-w-[220px]">
-                <p className="text-xs">{en.settings.resize.tooltip}</p>
+                <p className="text-xs">{en.settings.alpha.tooltip}</p>
               </TooltipContent>
             </Tooltip>
           </div>
-          
-          {/* Resize Mode Buttons */}
-          <div className="flex flex-wrap gap-1.5">
-            <PercentageInputButton
-              value={settings.resize.percentage}
-              isActive={settings.resize.mode === 'percentage'}
-              onClick={() => handleResizeChange({ mode: 'percentage' })}
-              onChange={(value) => handleResizeChange({ percentage: value })}
-              disabled={disabled}
-            />
-            <ResizeModeButton
-              mode="width"
-              currentMode={settings.resize.mode}
-              label={en.settings.resize.modes.width}
-              icon={<ArrowLeftRight className="w-3 h-3" />}
-              onClick={() => handleResizeChange({ mode: 'width' })}
-              disabled={disabled}
-            />
-            <ResizeModeButton
-              mode="height"
-              currentMode={settings.resize.mode}
-              label={en.settings.resize.modes.height}
-              icon={<ArrowUpDown className="w-3 h-3" />}
-              onClick={() => handleResizeChange({ mode: 'height' })}
-              disabled={disabled}
-            />
-            <ResizeModeButton
-              mode="exact"
-              currentMode={settings.resize.mode}
-              label={en.settings.resize.modes.exact}
-              icon={<Maximize2 className="w-3 h-3" />}
-              onClick={() => handleResizeChange({ mode: 'exact' })}
+
+          <OptionSwitch
+            id="alpha-flatten"
+            label={en.settings.alpha.flatten}
+            tooltip={en.settings.alpha.flattenTooltip}
+            checked={settings.alpha.flatten}
+            onCheckedChange={(flatten) => handleAlphaChange({ flatten })}
+            disabled={disabled}
+          />
+          {settings.alpha.flatten && (
+            <div className="flex items-center justify-between gap-2 pl-4">
+              <Label htmlFor="alpha-background" className="text-xs text-muted-foreground">
+                {en.settings.alpha.background}
+              </Label>
+              <input
+                id="alpha-background"
+                type="color"
+                value={settings.alpha.background}
+                onChange={(e) => handleAlphaChange({ background: e.target.value })}
+                disabled={disabled}
+                className="w-16 h-7 rounded border border-input bg-transparent cursor-pointer"
+              />
+            </div>
+          )}
+
+          <OptionSwitch
+            id="alpha-trim"
+            label={en.settings.alpha.trim}
+            tooltip={en.settings.alpha.trimTooltip}
+            checked={settings.alpha.trim}
+            onCheckedChange={(trim) => handleAlphaChange({ trim })}
+            disabled={disabled}
+          />
+          {settings.alpha.trim && (
+            <div className="flex items-center gap-2 pl-4">
+              <Label className="text-xs text-muted-foreground">{en.settings.alpha.trimPadding}:</Label>
+              <NumberInput
+                value={settings.alpha.trimPadding}
+                min={0}
+                max={1000}
+                disabled={disabled}
+                onChange={(trimPadding) => handleAlphaChange({ trimPadding })}
+              />
+            </div>
+          )}
+
+          <OptionSwitch
+            id="alpha-clean-rgb"
+            label={en.settings.alpha.cleanTransparentRgb}
+            tooltip={en.settings.alpha.cleanTransparentRgbTooltip}
+            checked={settings.alpha.cleanTransparentRgb && !settings.alpha.flatten}
+            onCheckedChange={(cleanTransparentRgb) => handleAlphaChange({ cleanTransparentRgb })}
+            disabled={disabled || settings.alpha.flatten}
+          />
+        </div>
+
+        {/* Tone & Colour Section */}
+        <div className="space-y-3 pt-2 border-t border-border/30">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Label className="text-sm font-medium">
+                {en.settings.adjustments.label}
+              </Label>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <HelpCircle className="w-3.5 h-3.5 text-muted-foreground cursor-help hover:text-foreground transition-colors" />
+                </TooltipTrigger>
+                <TooltipContent side="right" className="max-w-[220px]">
+                  <p className="text-xs">{en.settings.adjustments.tooltip}</p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            {!isNeutralAdjustments(settings.adjustments) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => handleSettingChange({ adjustments: { ...DEFAULT_SETTINGS.adjustments } })}
+                disabled={disabled}
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                {en.settings.adjustments.reset}
+              </Button>
+            )}
+          </div>
+
+          <OptionSwitch
+            id="adjust-auto-levels"
+            label={en.settings.adjustments.autoLevels}
+            tooltip={en.settings.adjustments.autoLevelsTooltip}
+            checked={settings.adjustments.autoLevels}
+            onCheckedChange={(autoLevels) => handleAdjustmentsChange({ autoLevels })}
+            disabled={disabled}
+          />
+
+          {/* Levels: manual points are ignored while auto levels is on */}
+          <div className="grid grid-cols-2 gap-2">
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground">{en.settings.adjustments.blackPoint}:</Label>
+              <NumberInput
+                value={settings.adjustments.blackPoint}
+                min={0}
+                max={settings.adjustments.whitePoint - 1}
+                unit=""
+                disabled={disabled || settings.adjustments.autoLevels}
+                onChange={(blackPoint) => handleAdjustmentsChange({ blackPoint })}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground">{en.settings.adjustments.whitePoint}:</Label>
+              <NumberInput
+                value={settings.adjustments.whitePoint}
+                min={settings.adjustments.blackPoint + 1}
+                max={255}
+                unit=""
+                disabled={disabled || settings.adjustments.autoLevels}
+                onChange={(whitePoint) => handleAdjustmentsChange({ whitePoint })}
+              />
+            </div>
+          </div>
+
+          <SliderWithInput
+            id="adjust-gamma"
+            label={en.settings.adjustments.gamma}
+            tooltip={en.settings.adjustments.gammaTooltip}
+            value={settings.adjustments.gamma}
+            min={0.1}
+            max={3}
+            step={0.05}
+            unit=""
+            disabled={disabled}
+            onChange={(gamma) => handleAdjustmentsChange({ gamma })}
+          />
+          <SliderWithInput
+            id="adjust-contrast"
+            label={en.settings.adjustments.contrast}
+            tooltip={en.settings.adjustments.contrastTooltip}
+            value={settings.adjustments.contrast}
+            min={-100}
+            max={100}
+            step={1}
+            unit=""
+            disabled={disabled}
+            onChange={(contrast) => handleAdjustmentsChange({ contrast })}
+          />
+          <SliderWithInput
+            id="adjust-saturation"
+            label={en.settings.adjustments.saturation}
+            tooltip={en.settings.adjustments.saturationTooltip}
+            value={settings.adjustments.saturation}
+            min={-100}
+            max={100}
+            step={1}
+            unit=""
+            disabled={disabled}
+            onChange={(saturation) => handleAdjustmentsChange({ saturation })}
+          />
+          <SliderWithInput
+            id="adjust-vibrance"
+            label={en.settings.adjustments.vibrance}
+            tooltip={en.settings.adjustments.vibranceTooltip}
+            value={settings.adjustments.vibrance}
+            min={-100}
+            max={100}
+            step={1}
+            unit=""
+            disabled={disabled}
+            onChange={(vibrance) => handleAdjustmentsChange({ vibrance })}
+          />
+          <SliderWithInput
+            id="adjust-temperature"
+            label={en.settings.adjustments.temperature}
+            tooltip={en.settings.adjustments.temperatureTooltip}
+            value={settings.adjustments.temperature}
+            min={-100}
+            max={100}
+            step={1}
+            unit=""
+            disabled={disabled}
+            onChange={(temperature) => handleAdjustmentsChange({ temperature })}
+          />
+          <SliderWithInput
+            id="adjust-tint"
+            label={en.settings.adjustments.tint}
+            tooltip={en.settings.adjustments.tintTooltip}
+            value={settings.adjustments.tint}
+            min={-100}
+            max={100}
+            step={1}
+            unit=""
+            disabled={disabled}
+            onChange={(tint) => handleAdjustmentsChange({ tint })}
+          />
+          <p className="text-[10px] text-muted-foreground">{en.settings.adjustments.hint}</p>
+        </div>
+
+        {/* Watermark Section */}
+        <div className="space-y-3 pt-2 border-t border-border/30">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="watermark-enabled" className="text-sm font-medium">
+                {en.settings.watermark.label}
+              </Label>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <HelpCircle className="w-3.5 h-3.5 text-muted-foreground cursor-help hover:text-foreground transition-colors" />
+                </TooltipTrigger>
+                <TooltipContent side="right" className="max-w-[220px]">
+                  <p className="text-xs">{en.settings.watermark.tooltip}</p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <Switch
+              id="watermark-enabled"
+              checked={settings.watermark.enabled}
+              onCheckedChange={(enabled) => handleWatermarkChange({ enabled })}
               disabled={disabled}
             />
           </div>
 
-          {/* Resize Value Input based on mode */}
-          <div className="pt-2">
-            {settings.resize.mode === 'width' && (
-              <div className="flex items-center gap-2">
-                <Label className="text-xs text-muted-foreground">Width:</Label>
-                <NumberInput
-                  value={settings.resize.width}
-                  min={1}
-                  max={10000}
+          {settings.watermark.enabled && (
+            <div className="space-y-3">
+              <div className="flex gap-1">
+                <WatermarkKindButton
+                  kind="text"
+                  currentKind={settings.watermark.kind}
+                  label={en.settings.watermark.kinds.text}
+                  onClick={() => handleWatermarkChange({ kind: 'text' })}
                   disabled={disabled}
-                  onChange={(value) => handleResizeChange({ width: value })}
                 />
-                <span className="text-xs text-muted-foreground">(aspect ratio preserved)</span>
-              </div>
-            )}
-
-            {settings.resize.mode === 'height' && (
-              <div className="flex items-center gap-2">
-                <Label className="text-xs text-muted-foreground">Height:</Label>
-                <NumberInput
-                  value={settings.resize.height}
-                  min={1}
-                  max={10000}
+                <WatermarkKindButton
+                  kind="image"
+                  currentKind={settings.watermark.kind}
+                  label={en.settings.watermark.kinds.image}
+                  onClick={() => handleWatermarkChange({ kind: 'image' })}
                   disabled={disabled}
-                  onChange={(value) => handleResizeChange({ height: value })}
                 />
-                <span className="text-xs text-muted-foreground">(aspect ratio preserved)</span>
               </div>
-            )}
 
-            {settings.resize.mode === 'exact' && (
-              <div className="flex flex-col gap-2">
+              {settings.watermark.kind === 'text' ? (
                 <div className="flex items-center gap-2">
-                  <Label className="text-xs text-muted-foreground w-12">Width:</Label>
-                  <NumberInput
-                    value={settings.resize.width}
-                    min={1}
-                    max={10000}
+                  <Input
+                    value={settings.watermark.text}
+                    placeholder={en.settings.watermark.textPlaceholder}
+                    onChange={(e) => handleWatermarkChange({ text: e.target.value })}
                     disabled={disabled}
-                    onChange={(value) => handleResizeChange({ width: value })}
+                    className="h-7 text-xs"
                   />
-                </div>
-                <div className="flex items-center gap-2">
-                  <Label className="text-xs text-muted-foreground w-12">Height:</Label>
-                  <NumberInput
-                    value={settings.resize.height}
-                    min={1}
-                    max={10000}
+                  <input
+                    type="color"
+                    value={settings.watermark.color}
+                    onChange={(e) => handleWatermarkChange({ color: e.target.value })}
                     disabled={disabled}
-                    onChange={(value) => handleResizeChange({ height: value })}
+                    title={en.settings.watermark.color}
+                    className="w-10 h-7 shrink-0 rounded border border-input bg-transparent cursor-pointer"
                   />
                 </div>
-                <p className="text-[10px] text-amber-500/80">⚠️ May distort image</p>
+              ) : (
+                <div className="space-y-1.5">
+                  <div className="flex items-center gap-2">
+                    {settings.watermark.image && (
+                      <img
+                        src={getWatermarkAssetUrl(settings.watermark.image.id)}
+                        alt=""
+                        className="h-7 w-7 shrink-0 object-contain rounded border border-border/50 bg-muted/50"
+                      />
+                    )}
+                    <span className="flex-1 truncate text-xs text-muted-foreground">
+                      {settings.watermark.image?.name ?? en.settings.watermark.noImage}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => watermarkInputRef.current?.click()}
+                      disabled={disabled}
+                    >
+                      <Upload className="w-3 h-3 mr-1" />
+                      {en.settings.watermark.choose}
+                    </Button>
+                    <input
+                      ref={watermarkInputRef}
+                      type="file"
+                      accept="image/png,image/svg+xml,image/webp,image/jpeg"
+                      className="hidden"
+                      onChange={handleWatermarkFile}
+                    />
+                  </div>
+                  {watermarkError && (
+                    <p className="text-[10px] text-destructive">{watermarkError}</p>
+                  )}
+                </div>
+              )}
+
+              {/* Anchor */}
+              <div className="flex items-start gap-3">
+                <Label className="text-xs text-muted-foreground pt-1">{en.settings.watermark.anchor}</Label>
+                <div className="grid grid-cols-3 gap-1">
+                  {WATERMARK_ANCHORS.map((anchor) => (
+                    <button
+                      key={anchor}
+                      onClick={() => handleWatermarkChange({ anchor })}
+                      disabled={disabled}
+                      title={en.settings.watermark.anchors[anchor]}
+                      className={`
+                        w-5 h-5 rounded-sm transition-all
+                        ${settings.watermark.anchor === anchor
+                          ? 'bg-primary'
+                          : 'bg-muted/50 hover:bg-muted'
+                        }
+                        ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+                      `}
+                    />
+                  ))}
+                </div>
               </div>
-            )}
+
+              <SliderWithInput
+                id="watermark-scale"
+                label={en.settings.watermark.scale}
+                tooltip={en.settings.watermark.scaleTooltip}
+                value={settings.watermark.scale}
+                min={1}
+                max={100}
+                step={1}
+                disabled={disabled}
+                onChange={(scale) => handleWatermarkChange({ scale })}
+              />
+              <SliderWithInput
+                id="watermark-margin"
+                label={en.settings.watermark.margin}
+                tooltip={en.settings.watermark.marginTooltip}
+                value={settings.watermark.margin}
+                min={0}
+                max={20}
+                step={0.5}
+                disabled={disabled}
+                onChange={(margin) => handleWatermarkChange({ margin })}
+              />
+              <SliderWithInput
+                id="watermark-opacity"
+                label={en.settings.watermark.opacity}
+                tooltip={en.settings.watermark.opacityTooltip}
+                value={settings.watermark.opacity}
+                min={0}
+                max={100}
+                step={5}
+                disabled={disabled}
+                onChange={(opacity) => handleWatermarkChange({ opacity })}
+              />
+
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">{en.settings.watermark.blendMode}</Label>
+                <div className="flex flex-wrap gap-1">
+                  {BLEND_MODES.map((blendMode) => (
+                    <BlendModeButton
+                      key={blendMode}
+                      blendMode={blendMode}
+                      currentBlendMode={settings.watermark.blendMode}
+                      label={en.settings.watermark.blendModes[blendMode]}
+                      onClick={() => handleWatermarkChange({ blendMode })}
+                      disabled={disabled}
+                    />
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Metadata Section */}
+        <div className="space-y-3 pt-2 border-t border-border/30">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm font-medium">
+              {en.settings.metadata.label}
+            </Label>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <HelpCircle className="w-3.5 h-3.5 text-muted-foreground cursor-help hover:text-foreground transition-colors" />
+              </TooltipTrigger>
+              <TooltipContent side="right" className="max-w-[220px]">
+                <p className="text-xs">{en.settings.metadata.tooltip}</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <div className="flex gap-1.5">
+            {METADATA_MODE_ORDER.map((mode) => (
+              <MetadataModeButton
+                key={mode}
+                mode={mode}
+                currentMode={settings.metadata.mode}
+                label={en.settings.metadata.modes[mode]}
+                onClick={() => handleMetadataModeChange(mode)}
+                disabled={disabled || settings.outputFormat !== 'webp'}
+              />
+            ))}
+          </div>
+          {settings.outputFormat !== 'webp' && (
+            <p className="text-[10px] text-muted-foreground">{en.settings.metadata.webpOnly}</p>
+          )}
+
+          {/* Colour profile handling */}
+          <div className="space-y-1.5">
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground">
+                {en.settings.colorManagement.label}
+              </Label>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <HelpCircle className="w-3 h-3 text-muted-foreground cursor-help hover:text-foreground transition-colors" />
+                </TooltipTrigger>
+                <TooltipContent side="right" className="max-w-[220px]">
+                  <p className="text-xs">{en.settings.colorManagement.tooltip}</p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <div className="flex gap-1.5">
+              <ColorManagementButton
+                mode="convertToSrgb"
+                currentMode={settings.colorManagement}
+                label={en.settings.colorManagement.modes.convertToSrgb}
+                onClick={() => onChange({ ...settings, colorManagement: 'convertToSrgb' })}
+                disabled={disabled}
+              />
+              <ColorManagementButton
+                mode="keepProfile"
+                currentMode={settings.colorManagement}
+                label={en.settings.colorManagement.modes.keepProfile}
+                onClick={() => onChange({ ...settings, colorManagement: 'keepProfile' })}
+                disabled={disabled || settings.outputFormat !== 'webp'}
+              />
+            </div>
+          </div>
+
+          <OptionSwitch
+            id="metadata-privacy"
+            label={en.settings.metadata.privacy}
+            tooltip={en.settings.metadata.privacyTooltip}
+            checked={settings.metadata.privacy}
+            onCheckedChange={(privacy) => onChange({ ...settings, metadata: { ...settings.metadata, privacy } })}
+            disabled={disabled}
+          />
+        </div>
+
+        {/* Output file names */}
+        <div className="space-y-3 pt-2 border-t border-border/30">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="filename-template" className="text-sm font-medium">
+              {en.settings.fileName.label}
+            </Label>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <HelpCircle className="w-3.5 h-3.5 text-muted-foreground cursor-help hover:text-foreground transition-colors" />
+              </TooltipTrigger>
+              <TooltipContent side="right" className="max-w-[220px]">
+                <p className="text-xs">{en.settings.fileName.tooltip}</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+
+          <Input
+            id="filename-template"
+            value={settings.fileNameTemplate}
+            placeholder="{name}"
+            onChange={(e) => handleFileNameTemplateChange(e.target.value)}
+            disabled={disabled}
+            className="h-7 text-xs font-mono"
+          />
+
+          {/* Click a token to append it */}
+          <div className="flex flex-wrap gap-1">
+            {FILENAME_TOKENS.map((token) => (
+              <button
+                key={token}
+                onClick={() => handleFileNameTemplateChange(`${settings.fileNameTemplate}{${token}}`)}
+                disabled={disabled}
+                className="px-1.5 py-0.5 rounded text-[10px] font-mono bg-muted/50 hover:bg-muted text-muted-foreground hover:text-foreground transition-colors"
+              >
+                {`{${token}}`}
+              </button>
+            ))}
           </div>
+
+          {unknownFileNameToken ? (
+            <p className="text-[10px] text-destructive">
+              {en.settings.fileName.unknownToken.replace('{token}', unknownFileNameToken)}
+            </p>
+          ) : (
+            <p className="text-[10px] text-muted-foreground truncate" title={fileNamePreview}>
+              {en.settings.fileName.preview} <span className="font-mono text-foreground/80">{fileNamePreview}</span>
+            </p>
+          )}
         </div>
 
         {/* Advanced Options Collapsible */}
@@ -647,6 +2169,52 @@ export function SettingsPanel({ settings, onChange, disabled }: SettingsPanelPro
               disabled={disabled}
               onChange={(value) => handleSettingChange({ denoise: value })}
             />
+            {settings.denoise > 0 && (
+              <div className="space-y-2 pl-4 -mt-3">
+                <FilterParamInput
+                  label={en.settings.denoise.radius}
+                  value={settings.denoiseParams.radius}
+                  autoValue={resolveDenoiseParams(settings.denoise, settings.denoiseParams).radius}
+                  min={1}
+                  max={4}
+                  disabled={disabled}
+                  onChange={(radius) => handleDenoiseParamsChange({ radius })}
+                />
+                <FilterParamInput
+                  label={en.settings.denoise.rangeSigma}
+                  value={settings.denoiseParams.rangeSigma}
+                  autoValue={resolveDenoiseParams(settings.denoise, settings.denoiseParams).rangeSigma}
+                  min={1}
+                  max={100}
+                  step={0.25}
+                  unit=""
+                  disabled={disabled}
+                  onChange={(rangeSigma) => handleDenoiseParamsChange({ rangeSigma })}
+                />
+                <FilterParamInput
+                  label={en.settings.denoise.spatialSigma}
+                  value={settings.denoiseParams.spatialSigma}
+                  min={0.3}
+                  max={5}
+                  step={0.1}
+                  disabled={disabled}
+                  onChange={(spatialSigma) => handleDenoiseParamsChange({ spatialSigma: spatialSigma ?? DEFAULT_SETTINGS.denoiseParams.spatialSigma })}
+                />
+              </div>
+            )}
+
+            {/* Chroma denoise */}
+            <SliderWithInput
+              id="chroma-denoise"
+              label={en.settings.chromaDenoise.label}
+              tooltip={en.settings.chromaDenoise.tooltip}
+              value={settings.chromaDenoise}
+              min={0}
+              max={100}
+              step={5}
+              disabled={disabled}
+              onChange={(value) => handleSettingChange({ chromaDenoise: value })}
+            />
 
             {/* Sharpen */}
             <SliderWithInput
@@ -660,6 +2228,123 @@ export function SettingsPanel({ settings, onChange, disabled }: SettingsPanelPro
               disabled={disabled}
               onChange={(value) => handleSettingChange({ sharpen: value })}
             />
+            {settings.sharpen > 0 && (
+              <div className="space-y-2 pl-4 -mt-3">
+                <FilterParamInput
+                  label={en.settings.sharpen.radius}
+                  value={settings.sharpenParams.radius}
+                  min={1}
+                  max={5}
+                  disabled={disabled}
+                  onChange={(radius) => handleSharpenParamsChange({ radius: radius ?? DEFAULT_SETTINGS.sharpenParams.radius })}
+                />
+                <FilterParamInput
+                  label={en.settings.sharpen.amount}
+                  value={Math.round(settings.sharpenParams.amount * 100)}
+                  min={10}
+                  max={200}
+                  unit="%"
+                  disabled={disabled}
+                  onChange={(amount) => handleSharpenParamsChange({ amount: (amount ?? 70) / 100 })}
+                />
+                <FilterParamInput
+                  label={en.settings.sharpen.threshold}
+                  value={settings.sharpenParams.threshold}
+                  autoValue={resolveSharpenParams(settings.sharpen, settings.sharpenParams).threshold}
+                  min={0}
+                  max={50}
+                  step={0.25}
+                  unit=""
+                  disabled={disabled}
+                  onChange={(threshold) => handleSharpenParamsChange({ threshold })}
+                />
+              </div>
+            )}
+
+            {/* libwebp encoder options */}
+            {settings.outputFormat === 'webp' && settings.formatOptions.webp.encoder === 'libwebp' && (
+              <div className="space-y-6 pt-2 border-t border-border/30">
+                <p className="text-xs font-medium text-foreground/80">
+                  {en.settings.libwebp.title}
+                </p>
+                <SliderWithInput
+                  id="webp-method"
+                  label={en.settings.libwebp.method}
+                  tooltip={en.settings.libwebp.methodTooltip}
+                  value={settings.formatOptions.webp.method}
+                  min={0}
+                  max={6}
+                  step={1}
+                  unit=""
+                  disabled={disabled}
+                  onChange={(value) => handleFormatOptionsChange('webp', { method: value })}
+                />
+                <SliderWithInput
+                  id="webp-sns"
+                  label={en.settings.libwebp.snsStrength}
+                  tooltip={en.settings.libwebp.snsStrengthTooltip}
+                  value={settings.formatOptions.webp.snsStrength}
+                  min={0}
+                  max={100}
+                  step={5}
+                  unit=""
+                  disabled={disabled || settings.lossless}
+                  onChange={(value) => handleFormatOptionsChange('webp', { snsStrength: value })}
+                />
+                <SliderWithInput
+                  id="webp-filter"
+                  label={en.settings.libwebp.filterStrength}
+                  tooltip={en.settings.libwebp.filterStrengthTooltip}
+                  value={settings.formatOptions.webp.filterStrength}
+                  min={0}
+                  max={100}
+                  step={5}
+                  unit=""
+                  disabled={disabled || settings.lossless}
+                  onChange={(value) => handleFormatOptionsChange('webp', { filterStrength: value })}
+                />
+                <SliderWithInput
+                  id="webp-alpha-quality"
+                  label={en.settings.libwebp.alphaQuality}
+                  tooltip={en.settings.libwebp.alphaQualityTooltip}
+                  value={settings.formatOptions.webp.alphaQuality}
+                  min={0}
+                  max={100}
+                  step={1}
+                  disabled={disabled || settings.lossless}
+                  onChange={(value) => handleFormatOptionsChange('webp', { alphaQuality: value })}
+                />
+                <SliderWithInput
+                  id="webp-near-lossless"
+                  label={en.settings.libwebp.nearLossless}
+                  tooltip={en.settings.libwebp.nearLosslessTooltip}
+                  value={settings.formatOptions.webp.nearLossless}
+                  min={0}
+                  max={100}
+                  step={5}
+                  disabled={disabled || !settings.lossless}
+                  onChange={(value) => handleFormatOptionsChange('webp', { nearLossless: value })}
+                />
+                <div className="flex flex-col gap-2">
+                  <OptionSwitch
+                    id="webp-exact"
+                    label={en.settings.libwebp.exact}
+                    tooltip={en.settings.libwebp.exactTooltip}
+                    checked={settings.formatOptions.webp.exact}
+                    onCheckedChange={(checked) => handleFormatOptionsChange('webp', { exact: checked })}
+                    disabled={disabled}
+                  />
+                  <OptionSwitch
+                    id="webp-sharp-yuv"
+                    label={en.settings.libwebp.sharpYuv}
+                    tooltip={en.settings.libwebp.sharpYuvTooltip}
+                    checked={settings.formatOptions.webp.sharpYuv}
+                    onCheckedChange={(checked) => handleFormatOptionsChange('webp', { sharpYuv: checked })}
+                    disabled={disabled || settings.lossless}
+                  />
+                </div>
+              </div>
+            )}
 
             {/* Lossless Toggle */}
             <div className="flex items-center justify-between pt-2 border-t border-border/30">
@@ -680,12 +2365,38 @@ export function SettingsPanel({ settings, onChange, disabled }: SettingsPanelPro
                 id="lossless"
                 checked={settings.lossless}
                 onCheckedChange={(checked) => handleSettingChange({ lossless: checked })}
-                disabled={disabled}
+                disabled={disabled || !formatInfo.supportsLossless}
               />
             </div>
 
+            {/* Parallel conversions */}
+            {concurrency !== undefined && onConcurrencyChange && (
+              <div className="flex items-center justify-between pt-2 border-t border-border/30">
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm font-medium">
+                    {en.settings.concurrency.label}
+                  </Label>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <HelpCircle className="w-3.5 h-3.5 text-muted-foreground cursor-help hover:text-foreground transition-colors" />
+                    </TooltipTrigger>
+                    <TooltipContent side="right" className="max-w-[220px]">
+                      <p className="text-xs">{en.settings.concurrency.tooltip}</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </div>
+                <NumberInput
+                  value={concurrency}
+                  min={1}
+                  max={32}
+                  unit=""
+                  onChange={onConcurrencyChange}
+                />
+              </div>
+            )}
+
             {/* Processing Info */}
-            {(settings.denoise > 0 || settings.sharpen > 0) && (
+            {(settings.denoise > 0 || settings.sharpen > 0 || settings.chromaDenoise > 0) && (
               <div className="p-3 rounded-lg bg-muted/50 border border-border/30 space-y-2">
                 <p className="text-xs font-medium text-foreground/80">
                   {en.settings.processing.title}
@@ -698,6 +2409,13 @@ export function SettingsPanel({ settings, onChange, disabled }: SettingsPanelPro
                       en.settings.levels.strong
                     )}</p>
                   )}
+                  {settings.chromaDenoise > 0 && (
+                    <p>• {en.settings.processing.chromaDenoise.replace('{level}', 
+                      settings.chromaDenoise <= 30 ? en.settings.levels.light : 
+                      settings.chromaDenoise <= 60 ? en.settings.levels.medium : 
+                      en.settings.levels.strong
+                    )}</p>
+                  )}
                   {settings.sharpen > 0 && (
                     <p>• {en.settings.processing.sharpen.replace('{level}', 
                       settings.sharpen <= 20 ? en.settings.levels.light : 
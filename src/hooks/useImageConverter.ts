@@ -1,123 +1,303 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { ImageSequence, ImageFile, detectSequences } from '@/lib/sequence-detector'
-import { ConversionSettings, DEFAULT_SETTINGS, convertToWebP, getWebPFileName } from '@/lib/converter'
+import { ConversionSettings, DEFAULT_SETTINGS, ImageFraming, SettingsOverride, applySettingsOverride } from '@/lib/converter'
+import { ConversionPool, DEFAULT_CONCURRENCY, PRIORITY_VISIBLE, detectEncodableFormats } from '@/lib/converter-client'
+import { OUTPUT_FORMATS, OUTPUT_FORMAT_ORDER, OutputFormat } from '@/lib/formats'
+import { getOutputFiles } from '@/lib/filename-template'
+import { AnimationOptions, muxAnimatedWebP } from '@/lib/webp-container'
+import { explodeAnimatedFiles } from '@/lib/animated-input'
+import { restoreWatermark, saveWatermark } from '@/lib/watermark'
 import JSZip from 'jszip'
 import { saveAs } from 'file-saver'
 
-export function useImageConverter() {
+/**
+ * Sequence override with the image's own on top; null when neither has one
+ */
+function getOverride(sequence: ImageSequence | undefined, image: ImageFile): SettingsOverride | null {
+  if (!sequence?.settingsOverride && !image.settingsOverride) return null
+  return { ...sequence?.settingsOverride, ...image.settingsOverride }
+}
+
+interface UseImageConverterOptions {
+  concurrency?: number
+}
+
+export function useImageConverter({ concurrency: initialConcurrency = DEFAULT_CONCURRENCY }: UseImageConverterOptions = {}) {
   const [sequences, setSequences] = useState<ImageSequence[]>([])
   const [settings, setSettings] = useState<ConversionSettings>(DEFAULT_SETTINGS)
   const [isConverting, setIsConverting] = useState(false)
+  const [concurrency, setConcurrency] = useState(initialConcurrency)
+  const [previewFps, setPreviewFps] = useState(24)
+  const [pool] = useState(() => new ConversionPool(initialConcurrency))
+  const [encodableFormats, setEncodableFormats] = useState<OutputFormat[]>(OUTPUT_FORMAT_ORDER)
+  const [watermarkRestored, setWatermarkRestored] = useState(false)
+  const activeJobsRef = useRef(0)
+  // Latest job per image, so a superseded conversion can't overwrite a newer one
+  const jobVersionsRef = useRef(new Map<string, number>())
+
+  useEffect(() => {
+    let cancelled = false
+    detectEncodableFormats().then(formats => {
+      if (!cancelled) setEncodableFormats(formats)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Bring back the watermark from the last visit before saving any changes
+  useEffect(() => {
+    let cancelled = false
+    restoreWatermark().then(watermark => {
+      if (cancelled) return
+      if (watermark) setSettings(prev => ({ ...prev, watermark: { ...prev.watermark, ...watermark } }))
+      setWatermarkRestored(true)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    if (watermarkRestored) void saveWatermark(settings.watermark)
+  }, [watermarkRestored, settings.watermark])
+
+  useEffect(() => {
+    pool.setConcurrency(concurrency)
+  }, [pool, concurrency])
+
+  // Don't leave queued jobs behind when the component goes away
+  useEffect(() => {
+    return () => pool.cancelPending()
+  }, [pool])
+
+  const updateImage = useCallback((imageId: string, update: Partial<ImageFile>) => {
+    setSequences(prev => prev.map(seq => ({
+      ...seq,
+      images: seq.images.map(img =>
+        img.id === imageId ? { ...img, ...update } : img
+      )
+    })))
+  }, [])
+
+  const convertImage = useCallback(async (
+    image: ImageFile,
+    framing: ImageFraming | null,
+    baseSettings: ConversionSettings,
+    priority?: number,
+    override: SettingsOverride | null = null
+  ) => {
+    const imageSettings = applySettingsOverride(baseSettings, override)
+    const version = (jobVersionsRef.current.get(image.id) ?? 0) + 1
+    jobVersionsRef.current.set(image.id, version)
+    const isLatest = () => jobVersionsRef.current.get(image.id) === version
+    
+    try {
+      const result = await pool.enqueue(image.id, image.file, imageSettings, {
+        priority,
+        framing: framing ?? undefined,
+        // Status only flips to converting once a worker actually picks it up
+        onStart: () => {
+          if (isLatest()) updateImage(image.id, { status: 'converting' })
+        }
+      })
+      
+      if (!isLatest()) return
+      updateImage(image.id, {
+        status: 'done',
+        convertedBlob: result.blob,
+        convertedSize: result.blob.size,
+        outputFormat: imageSettings.outputFormat,
+        chosenQuality: result.quality,
+        outputWidth: result.width,
+        outputHeight: result.height,
+        contentHash: result.hash,
+        preset: imageSettings.preset,
+        withinTarget: result.withinTarget,
+        metrics: result.metrics,
+        meetsQualityFloor: result.meetsQualityFloor,
+        privacyFindings: result.privacyFindings,
+        sourceProfile: result.sourceProfile,
+        variants: result.variants
+      })
+    } catch (error) {
+      if (!isLatest()) return
+      updateImage(image.id, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }, [pool, updateImage])
+
+  /**
+   * Keeps isConverting up while a batch of (re)conversions runs
+   */
+  const trackConversions = useCallback(async (conversions: Promise<void>[]) => {
+    activeJobsRef.current++
+    setIsConverting(true)
+    
+    await Promise.all(conversions)
+    
+    activeJobsRef.current--
+    if (activeJobsRef.current === 0) {
+      setIsConverting(false)
+    }
+  }, [])
 
   const addFiles = useCallback(async (files: File[]) => {
-    // Detect sequences from new files
-    const newSequences = detectSequences(files)
+    // Animated GIF/APNG become sequences of their frames
+    const { stills, animations } = await explodeAnimatedFiles(files)
+    
+    // Detect sequences from new files; they keep the settings they were
+    // converted with, so later overrides don't pick up newer global changes
+    const newSequences = [...animations, ...detectSequences(stills)].map(sequence => ({ ...sequence, settings }))
     
     // Add to existing sequences
     setSequences(prev => [...prev, ...newSequences])
     
-    // Start converting
-    setIsConverting(true)
+    // Queue every image; the pool runs up to `concurrency` of them at once
+    await trackConversions(
+      newSequences.flatMap(sequence => sequence.images).map(image => convertImage(image, image.framing, settings))
+    )
+  }, [convertImage, settings, trackConversions])
+
+  /**
+   * Stores a new crop / focal point for one image and converts it again,
+   * ahead of the rest of the queue
+   */
+  const setImageFraming = useCallback(async (image: ImageFile, framing: ImageFraming | null) => {
+    updateImage(image.id, { framing, status: 'pending', error: undefined })
     
-    // Convert each image
-    for (const sequence of newSequences) {
-      for (const image of sequence.images) {
-        try {
-          // Update status to converting
-          setSequences(prev => prev.map(seq => ({
-            ...seq,
-            images: seq.images.map(img =>
-              img.id === image.id ? { ...img, status: 'converting' as const } : img
-            )
-          })))
-          
-          // Convert
-          const blob = await convertToWebP(image.file, settings)
-          
-          // Update with result
-          setSequences(prev => prev.map(seq => ({
-            ...seq,
-            images: seq.images.map(img =>
-              img.id === image.id
-                ? {
-                    ...img,
-                    status: 'done' as const,
-                    convertedBlob: blob,
-                    convertedSize: blob.size
-                  }
-                : img
-            )
-          })))
-        } catch (error) {
-          // Update with error
-          setSequences(prev => prev.map(seq => ({
-            ...seq,
-            images: seq.images.map(img =>
-              img.id === image.id
-                ? {
-                    ...img,
-                    status: 'error' as const,
-                    error: error instanceof Error ? error.message : 'Unknown error'
-                  }
-                : img
-            )
-          })))
+    const sequence = sequences.find(seq => seq.images.some(img => img.id === image.id))
+    await trackConversions([convertImage(image, framing, sequence?.settings ?? settings, PRIORITY_VISIBLE, getOverride(sequence, image))])
+  }, [convertImage, sequences, settings, trackConversions, updateImage])
+
+  /**
+   * Overrides settings for every image of a sequence (null goes back to
+   * the settings it was converted with) and converts them again. Image
+   * overrides still win.
+   */
+  const setSequenceOverride = useCallback(async (sequence: ImageSequence, settingsOverride: SettingsOverride | null) => {
+    const updated = { ...sequence, settingsOverride }
+    setSequences(prev => prev.map(seq => seq.id === sequence.id
+      ? {
+          ...seq,
+          settingsOverride,
+          images: seq.images.map(img => ({ ...img, status: 'pending' as const, error: undefined }))
         }
-      }
-    }
+      : seq
+    ))
     
-    setIsConverting(false)
-  }, [settings])
+    await trackConversions(
+      sequence.images.map(image => convertImage(image, image.framing, sequence.settings ?? settings, undefined, getOverride(updated, image)))
+    )
+  }, [convertImage, settings, trackConversions])
 
-  const downloadSingle = useCallback((image: ImageFile) => {
-    if (!image.convertedBlob) return
-    saveAs(image.convertedBlob, getWebPFileName(image.name))
-  }, [])
+  /**
+   * Overrides settings for one image (null goes back to its sequence's
+   * settings) and converts it again, ahead of the queue
+   */
+  const setImageOverride = useCallback(async (image: ImageFile, settingsOverride: SettingsOverride | null) => {
+    updateImage(image.id, { settingsOverride, status: 'pending', error: undefined })
+    
+    const sequence = sequences.find(seq => seq.images.some(img => img.id === image.id))
+    const updated = { ...image, settingsOverride }
+    await trackConversions([convertImage(updated, updated.framing, sequence?.settings ?? settings, PRIORITY_VISIBLE, getOverride(sequence, updated))])
+  }, [convertImage, sequences, settings, trackConversions, updateImage])
+
+  const prioritizeImage = useCallback((imageId: string) => {
+    pool.prioritize(imageId, PRIORITY_VISIBLE)
+  }, [pool])
+
+  // File names are built when downloading, so {date} is the download date.
+  // getOutputFiles names a whole sequence at once, the same way the srcset
+  // snippet does, so every download path agrees on them.
+
+  const downloadSingle = useCallback(async (image: ImageFile) => {
+    const sequence = sequences.find(seq => seq.images.some(img => img.id === image.id))
+    const files = getOutputFiles(sequence?.images ?? [image], settings.fileNameTemplate, new Date()).get(image.id)
+    if (!files) return
+    
+    if (files.length === 1) {
+      saveAs(files[0].blob, files[0].name)
+      return
+    }
+    
+    // A responsive set - every width goes in a ZIP
+    const zip = new JSZip()
+    for (const file of files) {
+      zip.file(file.name, file.blob)
+    }
+    
+    const zipBlob = await zip.generateAsync({ type: 'blob' })
+    saveAs(zipBlob, `${image.baseName}.zip`)
+  }, [sequences, settings.fileNameTemplate])
 
   const downloadSequence = useCallback(async (sequence: ImageSequence) => {
-    const completedImages = sequence.images.filter(img => img.status === 'done' && img.convertedBlob)
+    const files = getOutputFiles(sequence.images, settings.fileNameTemplate, new Date())
     
-    if (completedImages.length === 0) return
+    if (files.size === 0) return
     
-    if (completedImages.length === 1) {
-      // Single image - direct download
-      downloadSingle(completedImages[0])
+    if (files.size === 1) {
+      // Single image - direct download (a ZIP for a responsive set)
+      await downloadSingle(sequence.images.find(img => files.has(img.id))!)
       return
     }
     
     // Multiple images - create ZIP
     const zip = new JSZip()
     
-    for (const image of completedImages) {
-      if (image.convertedBlob) {
-        zip.file(getWebPFileName(image.name), image.convertedBlob)
+    for (const imageFiles of files.values()) {
+      for (const file of imageFiles) {
+        zip.file(file.name, file.blob)
       }
     }
     
     const zipBlob = await zip.generateAsync({ type: 'blob' })
     saveAs(zipBlob, `${sequence.baseName}.zip`)
-  }, [downloadSingle])
+  }, [downloadSingle, settings.fileNameTemplate])
+
+  const downloadAnimated = useCallback(async (sequence: ImageSequence, options: AnimationOptions) => {
+    const frames = sequence.images.filter(img => img.status === 'done' && img.convertedBlob)
+    
+    // Only WebP frames can be muxed without re-encoding
+    if (frames.length === 0 || frames.some(img => img.outputFormat !== 'webp')) return
+    
+    // Frames decoded from GIF/APNG keep their own timing
+    const webp = muxAnimatedWebP(
+      await Promise.all(frames.map(async img => ({
+        webp: new Uint8Array(await img.convertedBlob!.arrayBuffer()),
+        duration: img.frameDuration ?? 1000 / previewFps
+      }))),
+      options
+    )
+    
+    saveAs(new Blob([webp], { type: OUTPUT_FORMATS.webp.mimeType }), `${sequence.baseName}.webp`)
+  }, [previewFps])
 
   const downloadAll = useCallback(async () => {
     const zip = new JSZip()
+    const date = new Date()
     
+    // Names are unique per sequence, so each gets its own folder
     for (const sequence of sequences) {
       const folder = sequences.length > 1 ? zip.folder(sequence.baseName) : zip
       
-      for (const image of sequence.images) {
-        if (image.status === 'done' && image.convertedBlob) {
-          folder?.file(getWebPFileName(image.name), image.convertedBlob)
+      for (const imageFiles of getOutputFiles(sequence.images, settings.fileNameTemplate, date).values()) {
+        for (const file of imageFiles) {
+          folder?.file(file.name, file.blob)
         }
       }
     }
     
     const zipBlob = await zip.generateAsync({ type: 'blob' })
-    saveAs(zipBlob, 'webp-converted.zip')
-  }, [sequences])
+    saveAs(zipBlob, 'converted-images.zip')
+  }, [sequences, settings.fileNameTemplate])
 
   const clear = useCallback(() => {
+    pool.cancelPending()
     setSequences([])
-  }, [])
+  }, [pool])
 
   const updateSettings = useCallback((newSettings: ConversionSettings) => {
     setSettings(newSettings)
@@ -126,10 +306,20 @@ export function useImageConverter() {
   return {
     sequences,
     settings,
+    encodableFormats,
     isConverting,
+    concurrency,
+    setConcurrency,
+    previewFps,
+    setPreviewFps,
     addFiles,
+    setImageFraming,
+    setSequenceOverride,
+    setImageOverride,
+    prioritizeImage,
     downloadSingle,
     downloadSequence,
+    downloadAnimated,
     downloadAll,
     clear,
     updateSettings
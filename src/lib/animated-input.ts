@@ -0,0 +1,68 @@
+import { AnimationKind, isAnimatedPng } from '@/lib/animation-decoder'
+import { decodeAnimationInWorker } from '@/lib/converter-client'
+import { ImageSequence, createAnimationSequence } from '@/lib/sequence-detector'
+
+function getExtension(name: string): string {
+  return name.split('.').pop()?.toLowerCase() ?? ''
+}
+
+/**
+ * GIFs are always worth decoding (a single-frame GIF just stays a still);
+ * PNGs only when they carry an acTL chunk.
+ */
+async function getAnimationKind(file: File): Promise<AnimationKind | null> {
+  const extension = getExtension(file.name)
+  
+  if (file.type === 'image/gif' || extension === 'gif') return 'gif'
+  
+  if (file.type === 'image/png' || file.type === 'image/apng' || extension === 'png' || extension === 'apng') {
+    // acTL must come before IDAT, so the head of the file is enough
+    const head = new Uint8Array(await file.slice(0, 64 * 1024).arrayBuffer())
+    return isAnimatedPng(head) ? 'apng' : null
+  }
+  
+  return null
+}
+
+/**
+ * Separates animated files from stills and explodes each animation into
+ * its own sequence of PNG frames
+ */
+export async function explodeAnimatedFiles(
+  files: File[]
+): Promise<{ stills: File[]; animations: ImageSequence[] }> {
+  const stills: File[] = []
+  const animations: ImageSequence[] = []
+  
+  for (const file of files) {
+    const kind = await getAnimationKind(file)
+    if (!kind) {
+      stills.push(file)
+      continue
+    }
+    
+    try {
+      const frames = await decodeAnimationInWorker(file, kind)
+      if (frames.length <= 1) {
+        stills.push(file)
+        continue
+      }
+      
+      const baseName = file.name.replace(/\.[^/.]+$/, '')
+      const digits = Math.max(4, String(frames.length).length)
+      animations.push(createAnimationSequence(file, frames.map((frame, index) => ({
+        file: new File(
+          [frame.buffer],
+          `${baseName}_${String(index + 1).padStart(digits, '0')}.png`,
+          { type: 'image/png' }
+        ),
+        duration: frame.delay
+      }))))
+    } catch {
+      // Undecodable animation - fall back to converting the first frame
+      stills.push(file)
+    }
+  }
+  
+  return { stills, animations }
+}
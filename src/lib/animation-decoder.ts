@@ -0,0 +1,262 @@
+import { parseGIF, decompressFrames } from 'gifuct-js'
+
+/**
+ * Decoders that explode animated GIF and APNG files into full frames.
+ *
+ * Disposal and blending are resolved here, so every yielded frame is the
+ * complete RGBA picture a viewer would show at that point. APNG decoding
+ * needs createImageBitmap and OffscreenCanvas - run it in the worker.
+ */
+
+export type AnimationKind = 'gif' | 'apng'
+
+export interface DecodedFrame {
+  image: ImageData
+  delay: number   // milliseconds
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+// Browsers play delays of 10 ms or less at 100 ms; do the same so exports match
+const MAX_CLAMPED_DELAY = 10
+const DEFAULT_DELAY = 100
+
+function normalizeDelay(delay: number | undefined): number {
+  if (!delay || delay <= MAX_CLAMPED_DELAY) return DEFAULT_DELAY
+  return delay
+}
+
+interface PngChunk {
+  type: string
+  data: Uint8Array
+}
+
+function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const chunks: PngChunk[] = []
+  let offset = PNG_SIGNATURE.length
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+    const data = bytes.subarray(offset + 8, offset + 8 + length)
+    chunks.push({ type, data })
+    offset += 12 + length
+    if (type === 'IEND') break
+  }
+
+  return chunks
+}
+
+function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((value, index) => bytes[index] === value)
+}
+
+/**
+ * True for PNGs with an acTL chunk before the image data
+ */
+export function isAnimatedPng(bytes: Uint8Array): boolean {
+  if (!isPng(bytes)) return false
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = PNG_SIGNATURE.length
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+    if (type === 'acTL') return true
+    if (type === 'IDAT') return false
+    offset += 12 + length
+  }
+
+  return false
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function writePng(chunks: PngChunk[]): Uint8Array<ArrayBuffer> {
+  const size = PNG_SIGNATURE.length + chunks.reduce((sum, chunk) => sum + 12 + chunk.data.length, 0)
+  const bytes = new Uint8Array(size)
+  const view = new DataView(bytes.buffer)
+  bytes.set(PNG_SIGNATURE, 0)
+
+  let offset = PNG_SIGNATURE.length
+  for (const chunk of chunks) {
+    view.setUint32(offset, chunk.data.length)
+    for (let i = 0; i < 4; i++) bytes[offset + 4 + i] = chunk.type.charCodeAt(i)
+    bytes.set(chunk.data, offset + 8)
+    // CRC covers type and data
+    view.setUint32(offset + 8 + chunk.data.length, crc32(bytes.subarray(offset + 4, offset + 8 + chunk.data.length)))
+    offset += 12 + chunk.data.length
+  }
+
+  return bytes
+}
+
+interface ApngFrameControl {
+  width: number
+  height: number
+  x: number
+  y: number
+  delay: number
+  dispose: number   // 0 none, 1 background, 2 previous
+  blend: number     // 0 source, 1 over
+  data: Uint8Array[]
+}
+
+/**
+ * Decodes every APNG frame by rebuilding it as a standalone PNG
+ * (frame-sized IHDR + shared chunks + its data as IDAT) and letting the
+ * browser decode it, then compositing onto the full canvas.
+ */
+export async function* decodeApng(bytes: Uint8Array): AsyncGenerator<DecodedFrame> {
+  const chunks = readPngChunks(bytes)
+  const ihdr = chunks.find(chunk => chunk.type === 'IHDR')
+  if (!ihdr) throw new Error('Invalid PNG file')
+
+  const ihdrView = new DataView(ihdr.data.buffer, ihdr.data.byteOffset, ihdr.data.byteLength)
+  const width = ihdrView.getUint32(0)
+  const height = ihdrView.getUint32(4)
+
+  // Palette, transparency and colour chunks every frame needs
+  const sharedChunks: PngChunk[] = []
+  const frames: ApngFrameControl[] = []
+  let current: ApngFrameControl | null = null
+
+  for (const chunk of chunks) {
+    const view = new DataView(chunk.data.buffer, chunk.data.byteOffset, chunk.data.byteLength)
+
+    if (chunk.type === 'fcTL') {
+      const delayDen = view.getUint16(22) || 100
+      const dispose = chunk.data[24]
+      current = {
+        width: view.getUint32(4),
+        height: view.getUint32(8),
+        x: view.getUint32(12),
+        y: view.getUint32(16),
+        delay: (view.getUint16(20) / delayDen) * 1000,
+        // The spec treats "previous" on the first frame as "background"
+        dispose: frames.length === 0 && dispose === 2 ? 1 : dispose,
+        blend: chunk.data[25],
+        data: []
+      }
+      frames.push(current)
+    } else if (chunk.type === 'IDAT') {
+      // IDAT belongs to the animation only if an fcTL came before it
+      current?.data.push(chunk.data)
+    } else if (chunk.type === 'fdAT') {
+      // fdAT = sequence number + IDAT payload
+      current?.data.push(chunk.data.subarray(4))
+    } else if (!['IHDR', 'acTL', 'IEND'].includes(chunk.type) && frames.length === 0) {
+      sharedChunks.push(chunk)
+    }
+  }
+
+  const canvas = new OffscreenCanvas(width, height)
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!
+
+  for (const frame of frames) {
+    if (frame.data.length === 0) continue
+
+    const frameIhdr = new Uint8Array(ihdr.data)
+    const frameView = new DataView(frameIhdr.buffer)
+    frameView.setUint32(0, frame.width)
+    frameView.setUint32(4, frame.height)
+
+    const png = writePng([
+      { type: 'IHDR', data: frameIhdr },
+      ...sharedChunks,
+      ...frame.data.map(data => ({ type: 'IDAT', data })),
+      { type: 'IEND', data: new Uint8Array(0) }
+    ])
+    const bitmap = await createImageBitmap(new Blob([png], { type: 'image/png' }))
+
+    const previous = frame.dispose === 2
+      ? ctx.getImageData(frame.x, frame.y, frame.width, frame.height)
+      : null
+
+    if (frame.blend === 0) {
+      ctx.clearRect(frame.x, frame.y, frame.width, frame.height)
+    }
+    ctx.drawImage(bitmap, frame.x, frame.y)
+    bitmap.close()
+
+    yield { image: ctx.getImageData(0, 0, width, height), delay: normalizeDelay(frame.delay) }
+
+    if (frame.dispose === 1) {
+      ctx.clearRect(frame.x, frame.y, frame.width, frame.height)
+    } else if (previous) {
+      ctx.putImageData(previous, frame.x, frame.y)
+    }
+  }
+}
+
+/**
+ * Decodes every GIF frame, applying transparency and disposal methods
+ */
+export async function* decodeGif(bytes: Uint8Array): AsyncGenerator<DecodedFrame> {
+  const gif = parseGIF(bytes.slice().buffer)
+  const frames = decompressFrames(gif, true)
+  const { width, height } = gif.lsd
+  let canvas = new Uint8ClampedArray(width * height * 4)
+
+  for (const frame of frames) {
+    const { top, left, width: frameWidth, height: frameHeight } = frame.dims
+    const previous = frame.disposalType === 3 ? canvas.slice() : null
+
+    // Opaque patch pixels replace the canvas; transparent ones keep it
+    for (let y = 0; y < frameHeight; y++) {
+      const canvasY = top + y
+      if (canvasY >= height) break
+
+      for (let x = 0; x < frameWidth; x++) {
+        const canvasX = left + x
+        if (canvasX >= width) break
+
+        const src = (y * frameWidth + x) * 4
+        if (frame.patch[src + 3] === 0) continue
+
+        const dst = (canvasY * width + canvasX) * 4
+        canvas[dst] = frame.patch[src]
+        canvas[dst + 1] = frame.patch[src + 1]
+        canvas[dst + 2] = frame.patch[src + 2]
+        canvas[dst + 3] = 255
+      }
+    }
+
+    yield { image: new ImageData(canvas.slice(), width, height), delay: normalizeDelay(frame.delay) }
+
+    if (frame.disposalType === 2) {
+      // Restore to background: browsers clear to transparent
+      for (let y = top; y < Math.min(height, top + frameHeight); y++) {
+        const start = (y * width + left) * 4
+        canvas.fill(0, start, start + Math.min(frameWidth, width - left) * 4)
+      }
+    } else if (previous) {
+      canvas = previous
+    }
+  }
+}
+
+export function decodeAnimation(kind: AnimationKind, bytes: Uint8Array): AsyncGenerator<DecodedFrame> {
+  return kind === 'gif' ? decodeGif(bytes) : decodeApng(bytes)
+}
@@ -0,0 +1,259 @@
+import { describe, expect, it } from 'vitest'
+import { convertImageDataToSrgb, parseIccProfile } from '@/lib/color-management'
+import type { IccProfile } from '@/lib/color-management'
+
+/**
+ * Profiles are built tag by tag from the published D50 primaries. The
+ * expected sRGB values come from the D65 RGB → XYZ matrices of each space
+ * (a different path than the profile's D50 one), rounded, so a wrong
+ * matrix order, adaptation or tone curve shows up as a miss of more than
+ * one level.
+ */
+
+type Xyz = [number, number, number]
+
+const SRGB_PRIMARIES: Xyz[] = [
+  [0.4360747, 0.2225045, 0.0139322],
+  [0.3850649, 0.7168786, 0.0971045],
+  [0.1430804, 0.0606169, 0.7141733]
+]
+const ADOBE_RGB_PRIMARIES: Xyz[] = [
+  [0.60974, 0.31111, 0.01947],
+  [0.20528, 0.62567, 0.06087],
+  [0.14919, 0.06322, 0.74457]
+]
+const DISPLAY_P3_PRIMARIES: Xyz[] = [
+  [0.51512, 0.2412, -0.00105],
+  [0.29198, 0.69225, 0.04189],
+  [0.1571, 0.06657, 0.78407]
+]
+
+// Adobe RGB's 2.2 as the u8Fixed8 its profile stores
+const ADOBE_RGB_GAMMA = 563 / 256
+
+function tag(type: string, size: number, write: (view: DataView) => void): Uint8Array {
+  const bytes = new Uint8Array(size)
+  for (let i = 0; i < 4; i++) bytes[i] = type.charCodeAt(i)
+  write(new DataView(bytes.buffer))
+  return bytes
+}
+
+const fixed = (value: number) => Math.round(value * 65536)
+
+function xyzTag([x, y, z]: Xyz): Uint8Array {
+  return tag('XYZ ', 20, view => {
+    view.setInt32(8, fixed(x))
+    view.setInt32(12, fixed(y))
+    view.setInt32(16, fixed(z))
+  })
+}
+
+function gammaCurve(gamma: number): Uint8Array {
+  return tag('curv', 14, view => {
+    view.setUint32(8, 1)
+    view.setUint16(12, Math.round(gamma * 256))
+  })
+}
+
+function tableCurve(values: number[]): Uint8Array {
+  return tag('curv', 12 + values.length * 2, view => {
+    view.setUint32(8, values.length)
+    values.forEach((value, index) => view.setUint16(12 + index * 2, Math.round(value * 65535)))
+  })
+}
+
+function parametricCurve(functionType: number, params: number[]): Uint8Array {
+  return tag('para', 12 + params.length * 4, view => {
+    view.setUint16(8, functionType)
+    params.forEach((param, index) => view.setInt32(12 + index * 4, fixed(param)))
+  })
+}
+
+// The sRGB transfer function as a type 3 parametric curve
+const SRGB_CURVE = parametricCurve(3, [2.4, 1 / 1.055, 0.055 / 1.055, 1 / 12.92, 0.04045])
+
+function descTag(name: string): Uint8Array {
+  return tag('desc', 12 + name.length + 1, view => {
+    view.setUint32(8, name.length + 1)
+    for (let i = 0; i < name.length; i++) view.setUint8(12 + i, name.charCodeAt(i))
+  })
+}
+
+function mlucTag(name: string): Uint8Array {
+  return tag('mluc', 28 + name.length * 2, view => {
+    view.setUint32(8, 1)
+    view.setUint32(12, 12)
+    view.setUint16(16, 0x656e)   // 'en'
+    view.setUint16(18, 0x5553)   // 'US'
+    view.setUint32(20, name.length * 2)
+    view.setUint32(24, 28)
+    for (let i = 0; i < name.length; i++) view.setUint16(28 + i * 2, name.charCodeAt(i))
+  })
+}
+
+/**
+ * Header, tag table and tag data; only the fields the parser reads are set
+ */
+function createProfile(tags: Record<string, Uint8Array>, colorSpace = 'RGB '): Uint8Array {
+  const entries = Object.entries(tags)
+  const tableEnd = 132 + entries.length * 12
+  const size = entries.reduce((sum, [, data]) => sum + data.length, tableEnd)
+  const bytes = new Uint8Array(size)
+  const view = new DataView(bytes.buffer)
+  const writeSignature = (offset: number, signature: string) => {
+    for (let i = 0; i < 4; i++) bytes[offset + i] = signature.charCodeAt(i)
+  }
+
+  view.setUint32(0, size)
+  writeSignature(16, colorSpace)
+  writeSignature(20, 'XYZ ')
+  writeSignature(36, 'acsp')
+  view.setUint32(128, entries.length)
+
+  let offset = tableEnd
+  entries.forEach(([signature, data], index) => {
+    const entry = 132 + index * 12
+    writeSignature(entry, signature)
+    view.setUint32(entry + 4, offset)
+    view.setUint32(entry + 8, data.length)
+    bytes.set(data, offset)
+    offset += data.length
+  })
+
+  return bytes
+}
+
+function createMatrixProfile(name: string, primaries: Xyz[], curve: Uint8Array): Uint8Array {
+  return createProfile({
+    desc: descTag(name),
+    rXYZ: xyzTag(primaries[0]),
+    gXYZ: xyzTag(primaries[1]),
+    bXYZ: xyzTag(primaries[2]),
+    rTRC: curve,
+    gTRC: curve,
+    bTRC: curve
+  })
+}
+
+function convertPixels(profile: IccProfile, pixels: [number, number, number][]): [number, number, number][] {
+  const data = new Uint8ClampedArray(pixels.flatMap(([r, g, b]) => [r, g, b, 255]))
+  convertImageDataToSrgb({ data, width: pixels.length, height: 1, colorSpace: 'srgb' }, profile)
+  return pixels.map((_, index) => [data[index * 4], data[index * 4 + 1], data[index * 4 + 2]])
+}
+
+function expectWithinOneLevel(actual: number[][], expected: number[][]) {
+  actual.forEach((pixel, index) => {
+    pixel.forEach((value, channel) => {
+      expect(Math.abs(value - expected[index][channel]), `pixel ${index}, channel ${channel}`).toBeLessThanOrEqual(1)
+    })
+  })
+}
+
+describe('parseIccProfile', () => {
+  it('reads the name, the primaries as a row-major matrix and the curves', () => {
+    const profile = parseIccProfile(createMatrixProfile('Adobe RGB (1998)', ADOBE_RGB_PRIMARIES, gammaCurve(ADOBE_RGB_GAMMA)))!
+    const [r, g, b] = ADOBE_RGB_PRIMARIES
+
+    expect(profile.name).toBe('Adobe RGB (1998)')
+    expect(profile.isSrgb).toBe(false)
+    profile.matrix!.forEach((value, index) => {
+      const column = [r, g, b][index % 3]
+      expect(value).toBeCloseTo(column[Math.floor(index / 3)], 4)
+    })
+    expect(profile.curves![0](0.5)).toBeCloseTo(Math.pow(0.5, ADOBE_RGB_GAMMA), 6)
+  })
+
+  it('recognises sRGB by its primaries and curve rather than its name', () => {
+    const profile = parseIccProfile(createMatrixProfile('Camera RGB', SRGB_PRIMARIES, SRGB_CURVE))!
+
+    expect(profile.isSrgb).toBe(true)
+  })
+
+  it('does not mistake a linear profile with sRGB primaries for sRGB', () => {
+    const profile = parseIccProfile(createMatrixProfile('sRGB linear', SRGB_PRIMARIES, tableCurve([0, 1])))!
+
+    expect(profile.isSrgb).toBe(false)
+  })
+
+  it('evaluates both pieces of a parametric curve', () => {
+    const [curve] = parseIccProfile(createMatrixProfile('sRGB', SRGB_PRIMARIES, SRGB_CURVE))!.curves!
+
+    expect(curve(0.02)).toBeCloseTo(0.02 / 12.92, 5)
+    expect(curve(0.5)).toBeCloseTo(0.214041, 4)
+    expect(curve(1)).toBeCloseTo(1, 4)
+  })
+
+  it('interpolates sampled curves', () => {
+    const [curve] = parseIccProfile(createMatrixProfile('Table', SRGB_PRIMARIES, tableCurve([0, 0.2, 1])))!.curves!
+
+    expect(curve(0.25)).toBeCloseTo(0.1, 4)
+    expect(curve(0.75)).toBeCloseTo(0.6, 4)
+  })
+
+  it('reads a v4 multi-language description', () => {
+    const profile = parseIccProfile(createProfile({ desc: mlucTag('Display P3') }))!
+
+    expect(profile.name).toBe('Display P3')
+  })
+
+  it('leaves LUT profiles without a matrix and goes by their name', () => {
+    const profile = parseIccProfile(createProfile({ desc: descTag('sRGB IEC61966-2.1'), A2B0: new Uint8Array(32) }))!
+
+    expect(profile).toEqual({ name: 'sRGB IEC61966-2.1', isSrgb: true, matrix: null, curves: null })
+  })
+
+  it('rejects profiles that are not RGB or not ICC', () => {
+    const gray = createProfile({ desc: descTag('Gray'), kTRC: gammaCurve(2.2) }, 'GRAY')
+    const notIcc = createMatrixProfile('Adobe RGB (1998)', ADOBE_RGB_PRIMARIES, gammaCurve(2.2))
+    notIcc[36] = 0
+
+    expect(parseIccProfile(gray)).toBeNull()
+    expect(parseIccProfile(notIcc)).toBeNull()
+    expect(parseIccProfile(new Uint8Array(64))).toBeNull()
+  })
+})
+
+describe('convertImageDataToSrgb', () => {
+  it('leaves sRGB pixels as they are', () => {
+    const profile = parseIccProfile(createMatrixProfile('sRGB', SRGB_PRIMARIES, SRGB_CURVE))!
+    const pixels: [number, number, number][] = Array.from({ length: 256 }, (_, value) => [value, 255 - value, (value * 7) % 256])
+
+    expectWithinOneLevel(convertPixels(profile, pixels), pixels)
+  })
+
+  it('converts Adobe RGB to known sRGB values', () => {
+    const profile = parseIccProfile(createMatrixProfile('Adobe RGB (1998)', ADOBE_RGB_PRIMARIES, gammaCurve(ADOBE_RGB_GAMMA)))!
+    const converted = convertPixels(profile, [[128, 128, 128], [200, 100, 50], [60, 180, 90], [255, 255, 255]])
+
+    // Red clips to 0 for the saturated green
+    expectWithinOneLevel(converted, [[129, 129, 129], [227, 100, 42], [0, 181, 83], [255, 255, 255]])
+  })
+
+  it('converts Display P3 to known sRGB values', () => {
+    const profile = parseIccProfile(createMatrixProfile('Display P3', DISPLAY_P3_PRIMARIES, SRGB_CURVE))!
+    const converted = convertPixels(profile, [[128, 128, 128], [200, 100, 50], [60, 180, 90], [0, 255, 0]])
+
+    expectWithinOneLevel(converted, [[128, 128, 128], [215, 93, 31], [0, 183, 78], [0, 255, 0]])
+  })
+
+  it('encodes linear input with the sRGB curve', () => {
+    const profile = parseIccProfile(createMatrixProfile('sRGB linear', SRGB_PRIMARIES, tableCurve([0, 1])))!
+
+    expectWithinOneLevel(convertPixels(profile, [[64, 128, 0]]), [[137, 188, 0]])
+  })
+
+  it('keeps alpha', () => {
+    const profile = parseIccProfile(createMatrixProfile('Adobe RGB (1998)', ADOBE_RGB_PRIMARIES, gammaCurve(ADOBE_RGB_GAMMA)))!
+    const data = new Uint8ClampedArray([200, 100, 50, 77])
+    convertImageDataToSrgb({ data, width: 1, height: 1, colorSpace: 'srgb' }, profile)
+
+    expect(data[3]).toBe(77)
+  })
+
+  it('leaves pixels alone for profiles without a matrix', () => {
+    const data = new Uint8ClampedArray([200, 100, 50, 255])
+    convertImageDataToSrgb({ data, width: 1, height: 1, colorSpace: 'srgb' }, { name: 'LUT', isSrgb: false, matrix: null, curves: null })
+
+    expect([...data]).toEqual([200, 100, 50, 255])
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * ICC colour management for matrix/TRC RGB profiles (Adobe RGB, Display P3,
+ * ProPhoto and most camera/monitor profiles).
+ *
+ * Pixels go through the profile's tone curves to linear light, its matrix
+ * to D50 XYZ and the Bradford-adapted sRGB matrix back out. LUT-based
+ * profiles aren't parsed - the browser's own conversion handles those.
+ */
+
+type ToneCurve = (value: number) => number
+
+export interface IccProfile {
+  name: string
+  isSrgb: boolean
+  // Linear RGB → D50 XYZ (row-major) and per-channel curves; null for LUT profiles
+  matrix: number[] | null
+  curves: [ToneCurve, ToneCurve, ToneCurve] | null
+}
+
+// Linear sRGB ↔ D50 XYZ, Bradford-adapted as in the ICC sRGB profile
+const SRGB_TO_XYZ_D50 = [
+  0.4360747, 0.3850649, 0.1430804,
+  0.2225045, 0.7168786, 0.0606169,
+  0.0139322, 0.0971045, 0.7141733
+]
+const XYZ_D50_TO_SRGB = [
+  3.1338561, -1.6168667, -0.4906146,
+  -0.9787684, 1.9161415, 0.0334540,
+  0.0719453, -0.2289914, 1.4052427
+]
+
+// How close a profile has to be to count as sRGB already
+const MATRIX_TOLERANCE = 0.003
+const CURVE_TOLERANCE = 0.01
+
+// Output gamma encoding table size (linear input resolution)
+const ENCODE_LUT_SIZE = 4096
+
+function readSignature(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  )
+}
+
+function readS15Fixed16(view: DataView, offset: number): number {
+  return view.getInt32(offset) / 65536
+}
+
+function srgbToLinear(value: number): number {
+  return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4)
+}
+
+function linearToSrgb(value: number): number {
+  return value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055
+}
+
+function readXYZ(view: DataView, offset: number): [number, number, number] | null {
+  if (readSignature(view, offset) !== 'XYZ ') return null
+  return [readS15Fixed16(view, offset + 8), readS15Fixed16(view, offset + 12), readS15Fixed16(view, offset + 16)]
+}
+
+/**
+ * 'curv' (gamma or sampled table) and 'para' (parametric) tone curves
+ */
+function readCurve(view: DataView, offset: number): ToneCurve | null {
+  const type = readSignature(view, offset)
+
+  if (type === 'curv') {
+    const count = view.getUint32(offset + 8)
+    if (count === 0) return value => value
+    if (count === 1) {
+      const gamma = view.getUint16(offset + 12) / 256
+      return value => Math.pow(value, gamma)
+    }
+
+    const table = new Float32Array(count)
+    for (let i = 0; i < count; i++) table[i] = view.getUint16(offset + 12 + i * 2) / 65535
+    return value => {
+      const position = Math.max(0, Math.min(1, value)) * (count - 1)
+      const index = Math.floor(position)
+      const next = Math.min(count - 1, index + 1)
+      return table[index] + (table[next] - table[index]) * (position - index)
+    }
+  }
+
+  if (type === 'para') {
+    const functionType = view.getUint16(offset + 8)
+    const paramCount = [1, 3, 4, 5, 7][functionType]
+    if (paramCount === undefined) return null
+
+    const p = Array.from({ length: 7 }, (_, i) => (i < paramCount ? readS15Fixed16(view, offset + 12 + i * 4) : 0))
+    const [g, a, b, c, d, e, f] = p
+
+    switch (functionType) {
+      case 0: return x => Math.pow(x, g)
+      case 1: return x => (x >= -b / a ? Math.pow(a * x + b, g) : 0)
+      case 2: return x => (x >= -b / a ? Math.pow(a * x + b, g) + c : c)
+      case 3: return x => (x >= d ? Math.pow(a * x + b, g) : c * x)
+      default: return x => (x >= d ? Math.pow(a * x + b, g) + e : c * x + f)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Profile description from a v2 'desc' or v4 'mluc' tag
+ */
+function readDescription(view: DataView, offset: number): string {
+  const type = readSignature(view, offset)
+
+  if (type === 'desc') {
+    const length = view.getUint32(offset + 8)
+    const chars: number[] = []
+    for (let i = 0; i < length; i++) {
+      const char = view.getUint8(offset + 12 + i)
+      if (char === 0) break
+      chars.push(char)
+    }
+    return String.fromCharCode(...chars)
+  }
+
+  if (type === 'mluc' && view.getUint32(offset + 8) > 0) {
+    // First record: language, country, byte length, offset (UTF-16BE)
+    const length = view.getUint32(offset + 20)
+    const start = offset + view.getUint32(offset + 24)
+    const chars: number[] = []
+    for (let i = 0; i + 1 < length; i += 2) chars.push(view.getUint16(start + i))
+    return String.fromCharCode(...chars).replace(/\0+$/, '')
+  }
+
+  return ''
+}
+
+function matchesSrgb(matrix: number[], curves: ToneCurve[]): boolean {
+  const matrixMatches = matrix.every((value, index) => Math.abs(value - SRGB_TO_XYZ_D50[index]) < MATRIX_TOLERANCE)
+  if (!matrixMatches) return false
+
+  return curves.every(curve =>
+    [0.1, 0.25, 0.5, 0.75, 0.9].every(x => Math.abs(curve(x) - srgbToLinear(x)) < CURVE_TOLERANCE)
+  )
+}
+
+/**
+ * Parses an ICC profile. Returns null for non-RGB or malformed profiles.
+ */
+export function parseIccProfile(bytes: Uint8Array): IccProfile | null {
+  try {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    if (bytes.length < 132 || readSignature(view, 36) !== 'acsp') return null
+    if (readSignature(view, 16) !== 'RGB ') return null
+
+    const tags = new Map<string, number>()
+    const tagCount = view.getUint32(128)
+    for (let i = 0; i < tagCount; i++) {
+      const entry = 132 + i * 12
+      if (entry + 12 > bytes.length) break
+      tags.set(readSignature(view, entry), view.getUint32(entry + 4))
+    }
+
+    const tagOffset = (signature: string) => tags.get(signature)
+    const name = tags.has('desc') ? readDescription(view, tagOffset('desc')!) : ''
+
+    // Matrix/TRC profiles only
+    const columns = ['rXYZ', 'gXYZ', 'bXYZ'].map(tag => (tags.has(tag) ? readXYZ(view, tagOffset(tag)!) : null))
+    const curves = ['rTRC', 'gTRC', 'bTRC'].map(tag => (tags.has(tag) ? readCurve(view, tagOffset(tag)!) : null))
+
+    if (columns.some(column => !column) || curves.some(curve => !curve)) {
+      return { name, isSrgb: /srgb/i.test(name), matrix: null, curves: null }
+    }
+
+    const [r, g, b] = columns as [number, number, number][]
+    const matrix = [
+      r[0], g[0], b[0],
+      r[1], g[1], b[1],
+      r[2], g[2], b[2]
+    ]
+    const toneCurves = curves as [ToneCurve, ToneCurve, ToneCurve]
+
+    return { name, isSrgb: matchesSrgb(matrix, toneCurves), matrix, curves: toneCurves }
+  } catch {
+    return null
+  }
+}
+
+function multiply(a: number[], b: number[]): number[] {
+  const result = new Array<number>(9)
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      result[row * 3 + col] =
+        a[row * 3] * b[col] + a[row * 3 + 1] * b[3 + col] + a[row * 3 + 2] * b[6 + col]
+    }
+  }
+  return result
+}
+
+/**
+ * Converts RGBA pixels in place from the profile's colour space to sRGB.
+ * Out-of-gamut colours are clipped; alpha is untouched.
+ */
+export function convertImageDataToSrgb(imageData: ImageData, profile: IccProfile): void {
+  if (!profile.matrix || !profile.curves) return
+
+  const { data } = imageData
+  const m = multiply(XYZ_D50_TO_SRGB, profile.matrix)
+
+  // 8-bit input → linear, per channel
+  const decode = profile.curves.map(curve => {
+    const lut = new Float32Array(256)
+    for (let i = 0; i < 256; i++) lut[i] = curve(i / 255)
+    return lut
+  })
+
+  const encode = new Uint8ClampedArray(ENCODE_LUT_SIZE + 1)
+  for (let i = 0; i <= ENCODE_LUT_SIZE; i++) {
+    encode[i] = Math.round(linearToSrgb(i / ENCODE_LUT_SIZE) * 255)
+  }
+  const toSrgb = (linear: number) => encode[Math.round(Math.max(0, Math.min(1, linear)) * ENCODE_LUT_SIZE)]
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = decode[0][data[i]]
+    const g = decode[1][data[i + 1]]
+    const b = decode[2][data[i + 2]]
+
+    data[i] = toSrgb(m[0] * r + m[1] * g + m[2] * b)
+    data[i + 1] = toSrgb(m[3] * r + m[4] * g + m[5] * b)
+    data[i + 2] = toSrgb(m[6] * r + m[7] * g + m[8] * b)
+  }
+}
@@ -0,0 +1,304 @@
+import type { ConversionResult, ConversionSettings, ImageFraming } from '@/lib/converter'
+import type { OutputFormat } from '@/lib/formats'
+import type { AnimationKind } from '@/lib/animation-decoder'
+import type { AnimationFramePayload, ConverterRequest, ConvertRequest, ConverterResponse, WatermarkAssetRequest } from '@/lib/worker-protocol'
+import { getWatermarkAssetBlob, isWatermarkActive } from '@/lib/watermark'
+
+export const DEFAULT_CONCURRENCY = Math.max(1, navigator.hardwareConcurrency || 4)
+
+// Jobs the user is currently looking at (e.g. the frame in PreviewPanel)
+export const PRIORITY_VISIBLE = 10
+export const PRIORITY_NORMAL = 0
+
+interface QueuedJob {
+  key: string
+  file: File
+  settings: ConversionSettings
+  framing?: ImageFraming
+  priority: number
+  order: number
+  onStart?: () => void
+  resolve: (result: ConversionResult) => void
+  reject: (error: Error) => void
+}
+
+interface WorkerSlot {
+  worker: Worker
+  job: QueuedJob | null
+  assets: Set<string>   // watermark assets this worker already has
+}
+
+export interface EnqueueOptions {
+  priority?: number
+  framing?: ImageFraming
+  onStart?: () => void
+}
+
+function createWorker(): Worker {
+  return new Worker(new URL('../workers/converter.worker.ts', import.meta.url), {
+    type: 'module'
+  })
+}
+
+/**
+ * Runs conversions on a pool of converter workers.
+ *
+ * Each worker handles one job at a time. Queued jobs are picked by highest
+ * priority first, then in the order they were enqueued.
+ */
+export class ConversionPool {
+  private slots: WorkerSlot[] = []
+  private queue: QueuedJob[] = []
+  private concurrency: number
+  private nextOrder = 0
+  private nextRequestId = 0
+
+  constructor(concurrency: number = DEFAULT_CONCURRENCY) {
+    this.concurrency = Math.max(1, concurrency)
+  }
+
+  setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, concurrency)
+
+    // Retire idle workers above the new limit; busy ones finish first
+    this.slots = this.slots.filter((slot, index) => {
+      if (index < this.concurrency || slot.job) return true
+      slot.worker.terminate()
+      return false
+    })
+
+    this.dispatch()
+  }
+
+  enqueue(
+    key: string,
+    file: File,
+    settings: ConversionSettings,
+    { priority = PRIORITY_NORMAL, framing, onStart }: EnqueueOptions = {}
+  ): Promise<ConversionResult> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({
+        key,
+        file,
+        settings,
+        framing,
+        priority,
+        order: this.nextOrder++,
+        onStart,
+        resolve,
+        reject
+      })
+      this.dispatch()
+    })
+  }
+
+  /**
+   * Moves a queued job ahead of others. No-op if it already started.
+   */
+  prioritize(key: string, priority: number = PRIORITY_VISIBLE) {
+    for (const job of this.queue) {
+      if (job.key === key) job.priority = Math.max(job.priority, priority)
+    }
+  }
+
+  /**
+   * Drops all jobs that have not started yet
+   */
+  cancelPending(reason = 'Cancelled') {
+    const dropped = this.queue
+    this.queue = []
+    for (const job of dropped) {
+      job.reject(new Error(reason))
+    }
+  }
+
+  private takeNextJob(): QueuedJob | undefined {
+    if (this.queue.length === 0) return undefined
+
+    let bestIndex = 0
+    for (let i = 1; i < this.queue.length; i++) {
+      const candidate = this.queue[i]
+      const best = this.queue[bestIndex]
+      if (
+        candidate.priority > best.priority ||
+        (candidate.priority === best.priority && candidate.order < best.order)
+      ) {
+        bestIndex = i
+      }
+    }
+
+    return this.queue.splice(bestIndex, 1)[0]
+  }
+
+  private getIdleSlot(): WorkerSlot | null {
+    const idle = this.slots.find(slot => !slot.job)
+    if (idle) return idle
+
+    if (this.slots.length >= this.concurrency) return null
+
+    const slot: WorkerSlot = { worker: createWorker(), job: null, assets: new Set() }
+    this.slots.push(slot)
+    return slot
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0) {
+      const slot = this.getIdleSlot()
+      if (!slot) return
+
+      const job = this.takeNextJob()!
+      slot.job = job
+      void this.run(slot, job)
+    }
+  }
+
+  private async run(slot: WorkerSlot, job: QueuedJob) {
+    job.onStart?.()
+
+    try {
+      const result = await this.postJob(slot, job)
+      job.resolve(result)
+    } catch (error) {
+      job.reject(error instanceof Error ? error : new Error('Unknown error'))
+    } finally {
+      slot.job = null
+
+      // Honour a lowered concurrency once this worker becomes free
+      if (this.slots.length > this.concurrency) {
+        slot.worker.terminate()
+        this.slots = this.slots.filter(s => s !== slot)
+      }
+
+      this.dispatch()
+    }
+  }
+
+  /**
+   * Sends the job's watermark image to the slot's worker unless it already
+   * has it, so jobs only carry the asset id
+   */
+  private async sendWatermarkAsset(slot: WorkerSlot, job: QueuedJob) {
+    const { watermark } = job.settings
+    if (!isWatermarkActive(watermark) || watermark.kind !== 'image') return
+
+    const assetId = watermark.image!.id
+    if (slot.assets.has(assetId)) return
+
+    const blob = getWatermarkAssetBlob(assetId)
+    if (!blob) throw new Error('Watermark image is not loaded')
+
+    const buffer = await blob.arrayBuffer()
+    const request: WatermarkAssetRequest = { type: 'watermarkAsset', assetId, buffer }
+    slot.worker.postMessage(request, [buffer])
+    slot.assets.add(assetId)
+  }
+
+  private async postJob(slot: WorkerSlot, job: QueuedJob): Promise<ConversionResult> {
+    await this.sendWatermarkAsset(slot, job)
+    const buffer = await job.file.arrayBuffer()
+    const id = this.nextRequestId++
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        slot.worker.removeEventListener('message', handleMessage)
+        slot.worker.removeEventListener('error', handleError)
+      }
+
+      const handleMessage = (event: MessageEvent<ConverterResponse>) => {
+        const response = event.data
+        if (response.id !== id) return
+        cleanup()
+
+        if (response.type === 'result') {
+          resolve({
+            blob: new Blob([response.buffer], { type: response.mimeType }),
+            quality: response.quality,
+            width: response.width,
+            height: response.height,
+            hash: response.hash,
+            withinTarget: response.withinTarget,
+            metrics: response.metrics,
+            meetsQualityFloor: response.meetsQualityFloor,
+            privacyFindings: response.privacyFindings,
+            sourceProfile: response.sourceProfile,
+            variants: response.variants?.map(variant => ({
+              blob: new Blob([variant.buffer], { type: response.mimeType }),
+              quality: variant.quality,
+              width: variant.width,
+              height: variant.height,
+              hash: variant.hash
+            })) ?? null
+          })
+        } else if (response.type === 'error') {
+          reject(new Error(response.message))
+        }
+      }
+
+      // A crashed worker is replaced so the rest of the queue keeps going
+      const handleError = (event: ErrorEvent) => {
+        cleanup()
+        slot.worker.terminate()
+        slot.worker = createWorker()
+        slot.assets.clear()
+        reject(new Error(event.message || 'Converter worker crashed'))
+      }
+
+      slot.worker.addEventListener('message', handleMessage)
+      slot.worker.addEventListener('error', handleError)
+
+      // The source bytes are transferred to the worker, not copied
+      const request: ConvertRequest = { type: 'convert', id, buffer, mimeType: job.file.type, settings: job.settings, framing: job.framing }
+      slot.worker.postMessage(request, [buffer])
+    })
+  }
+}
+
+/**
+ * Sends one request to a short-lived worker and resolves with its reply
+ */
+function requestOnce(request: ConverterRequest, transfer: Transferable[] = []): Promise<ConverterResponse> {
+  return new Promise((resolve, reject) => {
+    const worker = createWorker()
+
+    worker.addEventListener('message', (event: MessageEvent<ConverterResponse>) => {
+      worker.terminate()
+      resolve(event.data)
+    })
+    worker.addEventListener('error', (event) => {
+      worker.terminate()
+      reject(new Error(event.message || 'Converter worker crashed'))
+    })
+
+    worker.postMessage(request, transfer)
+  })
+}
+
+let encodableFormats: Promise<OutputFormat[]> | null = null
+
+/**
+ * Output formats the converter worker can encode in this browser.
+ * Probed once in a short-lived worker and cached.
+ */
+export function detectEncodableFormats(): Promise<OutputFormat[]> {
+  if (encodableFormats) return encodableFormats
+
+  encodableFormats = requestOnce({ type: 'capabilities', id: 0 }).then(
+    response => response.type === 'capabilities' ? response.formats : ['webp', 'jpeg', 'png'],
+    // If probing fails, assume only the WASM-backed formats work
+    (): OutputFormat[] => ['webp', 'jpeg', 'png']
+  )
+
+  return encodableFormats
+}
+
+/**
+ * Explodes an animated GIF or APNG into full PNG frames off the main thread
+ */
+export async function decodeAnimationInWorker(file: File, kind: AnimationKind): Promise<AnimationFramePayload[]> {
+  const buffer = await file.arrayBuffer()
+  const response = await requestOnce({ type: 'decodeAnimation', id: 0, kind, buffer }, [buffer])
+
+  if (response.type === 'error') throw new Error(response.message)
+  if (response.type !== 'animation') throw new Error('Unexpected worker response')
+  return response.frames
+}
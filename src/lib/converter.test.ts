@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_ADJUSTMENTS, DEFAULT_SETTINGS, PRESETS, applyPreset, resetSettings } from '@/lib/converter'
+import type { QualityPreset } from '@/lib/converter'
+
+describe('applyPreset', () => {
+  it.each<QualityPreset>(['photo', 'web', 'crisp', 'webflowLike'])('sets the tone adjustments of the %s preset', (preset) => {
+    const edited = { ...DEFAULT_SETTINGS, adjustments: { ...DEFAULT_ADJUSTMENTS, temperature: 40, autoLevels: true } }
+    const applied = applyPreset(preset, edited)
+
+    expect(applied.adjustments).toEqual(PRESETS[preset].adjustments)
+    expect(applied.preset).toBe(preset)
+  })
+
+  it('keeps the current tone when switching to custom', () => {
+    const edited = applyPreset('web', DEFAULT_SETTINGS)
+    const custom = applyPreset('custom', edited)
+
+    expect(custom.adjustments).toEqual(edited.adjustments)
+    expect(custom.preset).toBe('custom')
+  })
+
+  it('gives custom neutral tone', () => {
+    expect(PRESETS.custom.adjustments).toEqual(DEFAULT_ADJUSTMENTS)
+  })
+
+  it('leaves resize alone', () => {
+    const resized = { ...DEFAULT_SETTINGS, resize: { ...DEFAULT_SETTINGS.resize, percentage: 50 } }
+
+    expect(applyPreset('photo', resized).resize).toEqual(resized.resize)
+  })
+})
+
+describe('resetSettings', () => {
+  it('keeps the watermark so the stored one survives a reset', () => {
+    const watermark = {
+      ...DEFAULT_SETTINGS.watermark,
+      enabled: true,
+      kind: 'image' as const,
+      image: { id: 'abc123', name: 'logo.svg', width: 2048, height: 512 },
+      opacity: 40
+    }
+    const edited = { ...applyPreset('crisp', DEFAULT_SETTINGS), quality: 55, watermark }
+    const reset = resetSettings(edited)
+
+    expect(reset.watermark).toEqual(watermark)
+    expect({ ...reset, watermark: DEFAULT_SETTINGS.watermark }).toEqual(DEFAULT_SETTINGS)
+  })
+})
@@ -1,420 +1,1212 @@
+import { DEFAULT_FORMAT_OPTIONS, FormatOptions, OUTPUT_FORMATS, OutputFormat } from '@/lib/formats'
+import { OPAQUE_BACKGROUND, encodeImage } from '@/lib/encoders'
+import { resampleImage } from '@/lib/resample'
+import { applyLuminanceToRGB, denoiseChroma, denoiseLuminance, extractLuminance, sharpenLuminance } from '@/lib/luminance-filters'
+import { EMPTY_METADATA, ImageMetadata, PrivacyFinding, readMetadata, scanPrivacy, selectMetadata } from '@/lib/metadata'
+import { embedMetadata } from '@/lib/webp-container'
+import { IccProfile, convertImageDataToSrgb, parseIccProfile } from '@/lib/color-management'
+import { Background, QualityMetrics, compareToReference, measureQuality, prepareReference } from '@/lib/quality-metrics'
+import { applyToneAdjustments, isNeutralAdjustments } from '@/lib/tone-adjustments'
+import { drawWatermark } from '@/lib/watermark'
+import { DEFAULT_FILENAME_TEMPLATE, hashContent } from '@/lib/filename-template'
+
 export type QualityPreset = 'custom' | 'photo' | 'web' | 'crisp' | 'webflowLike'
-export type ResizeMode = 'percentage' | 'width' | 'height' | 'exact'
+export type ResizeMode = 'percentage' | 'width' | 'height' | 'exact' | 'contain' | 'cover' | 'longestEdge' | 'shortestEdge'
+export type QualityMode = 'fixed' | 'targetSize' | 'perceptual'
+export type PerceptualMetric = 'ssim' | 'msSsim'
+export type Resampler = 'browser' | 'lanczos3' | 'mitchell' | 'box'
+export type MetadataMode = 'keepAll' | 'copyrightOnly' | 'strip'
+export type ColorManagement = 'convertToSrgb' | 'keepProfile'
+export type Rotation = 0 | 90 | 180 | 270
+export type WatermarkKind = 'image' | 'text'
+export type WatermarkAnchor = 'topLeft' | 'top' | 'topRight' | 'left' | 'center' | 'right' | 'bottomLeft' | 'bottom' | 'bottomRight'
+export type WatermarkBlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'softLight'
 
 export interface ResizeSettings {
   mode: ResizeMode
   percentage: number   // 0-100 (used when mode is 'percentage')
   width: number        // target width in pixels (used when mode is 'width' or 'exact')
   height: number       // target height in pixels (used when mode is 'height' or 'exact')
+  edge: number         // edge length in pixels (used when mode is 'longestEdge' or 'shortestEdge')
+  noUpscale: boolean   // never produce an output larger than the source
+  resampler: Resampler // 'browser' = canvas drawImage, others via pica / in-house Mitchell
+}
+
+export interface TargetSizeSettings {
+  maxBytes: number     // output byte budget (used when qualityMode is 'targetSize')
+  allowResize: boolean // shrink dimensions when even the lowest quality is too big
+}
+
+export interface PerceptualTargetSettings {
+  metric: PerceptualMetric
+  target: number       // lowest acceptable score (0-1, used when qualityMode is 'perceptual')
+}
+
+export interface AlphaSettings {
+  flatten: boolean               // composite onto `background`, dropping transparency
+  background: string             // '#rrggbb'
+  trim: boolean                  // crop away fully transparent borders
+  trimPadding: number            // pixels of transparent margin kept around the content
+  cleanTransparentRgb: boolean   // zero RGB under alpha 0 so it compresses better
+}
+
+export interface TransformSettings {
+  rotation: Rotation       // clockwise quarter turns
+  angle: number            // straighten angle in degrees, clockwise; the rotated edges are cropped away
+  flipHorizontal: boolean  // mirrored before rotating
+  flipVertical: boolean
+}
+
+export interface ResponsiveSettings {
+  enabled: boolean     // produce one output per width instead of applying the resize settings
+  widths: number[]     // target widths in pixels
+  sizes: string        // `sizes` attribute for the generated markup
+}
+
+export interface SharpenParams {
+  radius: number             // blur radius of the unsharp mask in px (1 = 3×3)
+  amount: number             // strength at sharpen 100 (0.7 = 70%)
+  threshold: number | null   // minimum edge contrast in luma levels; null = adaptive from the slider
+}
+
+export interface DenoiseParams {
+  radius: number | null      // bilateral kernel radius in px; null = from the slider (1-4)
+  rangeSigma: number | null  // edge preservation in luma levels; null = from the slider (5-30)
+  spatialSigma: number       // falloff with distance in px
+}
+
+export interface ToneAdjustments {
+  autoLevels: boolean  // black/white points from each image's histogram instead of the values below
+  blackPoint: number   // 0-254, input level mapped to black
+  whitePoint: number   // 1-255, input level mapped to white
+  gamma: number        // 0.1-3, >1 brightens midtones
+  contrast: number     // -100 to 100
+  saturation: number   // -100 (greyscale) to 100
+  vibrance: number     // -100 to 100, saturation weighted towards muted colours
+  temperature: number  // -100 (cool) to 100 (warm)
+  tint: number         // -100 (green) to 100 (magenta)
+}
+
+export interface WatermarkAsset {
+  id: string           // hash of the image; the bytes are sent to the workers separately
+  name: string         // original file name, for display
+  width: number        // SVGs are rasterised on upload
+  height: number
+}
+
+export interface WatermarkSettings {
+  enabled: boolean
+  kind: WatermarkKind
+  image: WatermarkAsset | null
+  text: string
+  color: string        // '#rrggbb', text only
+  anchor: WatermarkAnchor
+  margin: number       // distance from the edges, % of output width
+  scale: number        // watermark width, % of output width
+  opacity: number      // 0-100
+  blendMode: WatermarkBlendMode
+}
+
+export interface QualityFloorSettings {
+  enabled: boolean
+  minSsim: number      // outputs below this SSIM are flagged (0-1)
+}
+
+export interface MetadataSettings {
+  mode: MetadataMode   // what survives into WebP output; other formats are always stripped
+  privacy: boolean     // drop GPS/serial/owner/thumbnail and verify the output is clean
 }
 
 export interface ConversionSettings {
-  quality: number      // 0-100
+  outputFormat: OutputFormat
+  formatOptions: FormatOptions
+  quality: number      // 0-100 (upper bound in 'targetSize' and 'perceptual' modes)
+  qualityMode: QualityMode
+  targetSize: TargetSizeSettings
+  perceptualTarget: PerceptualTargetSettings
   resize: ResizeSettings
+  transform: TransformSettings
+  alpha: AlphaSettings
+  responsive: ResponsiveSettings
+  qualityFloor: QualityFloorSettings
+  metadata: MetadataSettings
+  colorManagement: ColorManagement   // 'keepProfile' embeds the source ICC (WebP only, else converts)
   lossless: boolean
   sharpen: number      // 0-100 (sharpening strength)
   denoise: number      // 0-100 (noise reduction before compression)
+  chromaDenoise: number // 0-100 (colour speckle removal, luma untouched)
+  fileNameTemplate: string   // see filename-template.ts; only used when downloading
+  adjustments: ToneAdjustments
+  watermark: WatermarkSettings
+  sharpenParams: SharpenParams
+  denoiseParams: DenoiseParams
   preset: QualityPreset
 }
 
+/**
+ * Settings that differ for one sequence or image, e.g. lossless PNG for a
+ * logo or a smaller size for a hero sequence. Anything left out follows
+ * the settings the sequence was converted with.
+ */
+export type SettingsOverride = Partial<Pick<ConversionSettings, 'outputFormat' | 'quality' | 'qualityMode' | 'lossless' | 'resize'>>
+
+/** Rectangle in source-relative units (0-1) */
+export interface NormalizedRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Per-image framing chosen in the preview's crop editor.
+ * The crop is applied before any resize; the focal point decides which
+ * part survives when 'cover' has to trim the image. Both are picked on the
+ * untransformed source, the transform then applies to the cropped image.
+ */
+export interface ImageFraming {
+  crop: NormalizedRect | null
+  focalPoint: { x: number; y: number } | null   // 0-1, relative to the source image
+  transform: TransformSettings | null            // replaces settings.transform for this image
+}
+
+export const DEFAULT_FRAMING: ImageFraming = {
+  crop: null,
+  focalPoint: null,
+  transform: null
+}
+
+export const MAX_STRAIGHTEN_ANGLE = 45
+
+export const DEFAULT_TRANSFORM: TransformSettings = {
+  rotation: 0,
+  angle: 0,
+  flipHorizontal: false,
+  flipVertical: false
+}
+
 export const DEFAULT_RESIZE: ResizeSettings = {
   mode: 'percentage',
   percentage: 100,
   width: 1920,
-  height: 1080
+  height: 1080,
+  edge: 1920,
+  noUpscale: false,
+  resampler: 'browser'
+}
+
+export const DEFAULT_TARGET_SIZE: TargetSizeSettings = {
+  maxBytes: 200 * 1024,
+  allowResize: false
+}
+
+export const DEFAULT_PERCEPTUAL_TARGET: PerceptualTargetSettings = {
+  metric: 'ssim',
+  target: 0.97
+}
+
+export const DEFAULT_ALPHA: AlphaSettings = {
+  flatten: false,
+  background: '#ffffff',
+  trim: false,
+  trimPadding: 0,
+  cleanTransparentRgb: false
+}
+
+export const DEFAULT_RESPONSIVE: ResponsiveSettings = {
+  enabled: false,
+  widths: [480, 960, 1440, 1920],
+  sizes: '100vw'
+}
+
+export const DEFAULT_SHARPEN_PARAMS: SharpenParams = {
+  radius: 1,
+  amount: 0.7,
+  threshold: null
+}
+
+export const DEFAULT_DENOISE_PARAMS: DenoiseParams = {
+  radius: null,
+  rangeSigma: null,
+  spatialSigma: 1.2
+}
+
+export const DEFAULT_ADJUSTMENTS: ToneAdjustments = {
+  autoLevels: false,
+  blackPoint: 0,
+  whitePoint: 255,
+  gamma: 1,
+  contrast: 0,
+  saturation: 0,
+  vibrance: 0,
+  temperature: 0,
+  tint: 0
+}
+
+export const DEFAULT_WATERMARK: WatermarkSettings = {
+  enabled: false,
+  kind: 'text',
+  image: null,
+  text: '© ',
+  color: '#ffffff',
+  anchor: 'bottomRight',
+  margin: 2,
+  scale: 20,
+  opacity: 70,
+  blendMode: 'normal'
+}
+
+export const DEFAULT_QUALITY_FLOOR: QualityFloorSettings = {
+  enabled: false,
+  minSsim: 0.95
+}
+
+export const DEFAULT_METADATA: MetadataSettings = {
+  mode: 'copyrightOnly',
+  privacy: false
 }
 
 export const DEFAULT_SETTINGS: ConversionSettings = {
+  outputFormat: 'webp',
+  formatOptions: {
+    webp: { ...DEFAULT_FORMAT_OPTIONS.webp },
+    jpeg: { ...DEFAULT_FORMAT_OPTIONS.jpeg },
+    png: { ...DEFAULT_FORMAT_OPTIONS.png }
+  },
   quality: 90,
+  qualityMode: 'fixed',
+  targetSize: { ...DEFAULT_TARGET_SIZE },
+  perceptualTarget: { ...DEFAULT_PERCEPTUAL_TARGET },
   resize: { ...DEFAULT_RESIZE },
+  transform: { ...DEFAULT_TRANSFORM },
+  alpha: { ...DEFAULT_ALPHA },
+  responsive: { ...DEFAULT_RESPONSIVE, widths: [...DEFAULT_RESPONSIVE.widths] },
+  qualityFloor: { ...DEFAULT_QUALITY_FLOOR },
+  metadata: { ...DEFAULT_METADATA },
+  colorManagement: 'convertToSrgb',
   lossless: false,
   sharpen: 0,
   denoise: 0,
+  chromaDenoise: 0,
+  fileNameTemplate: DEFAULT_FILENAME_TEMPLATE,
+  adjustments: { ...DEFAULT_ADJUSTMENTS },
+  watermark: { ...DEFAULT_WATERMARK },
+  sharpenParams: { ...DEFAULT_SHARPEN_PARAMS },
+  denoiseParams: { ...DEFAULT_DENOISE_PARAMS },
   preset: 'custom'
 }
 
 export const PRESETS: Record<QualityPreset, Partial<ConversionSettings>> = {
-  custom: {},
+  custom: {
+    adjustments: { ...DEFAULT_ADJUSTMENTS }
+  },
   photo: {
     quality: 88,
     sharpen: 20,
     denoise: 15,
+    sharpenParams: { radius: 1, amount: 0.6, threshold: null },
+    denoiseParams: { radius: null, rangeSigma: null, spatialSigma: 1.2 },
+    adjustments: { ...DEFAULT_ADJUSTMENTS, contrast: 5, vibrance: 10 },
     lossless: false
   },
   web: {
     quality: 85,
     sharpen: 30,
     denoise: 20,
+    sharpenParams: { radius: 1, amount: 0.7, threshold: null },
+    denoiseParams: { radius: null, rangeSigma: null, spatialSigma: 1.2 },
+    adjustments: { ...DEFAULT_ADJUSTMENTS, contrast: 8, vibrance: 12 },
     lossless: false
   },
   crisp: {
     quality: 92,
     sharpen: 35,
     denoise: 10,
+    sharpenParams: { radius: 1, amount: 0.8, threshold: 4 },
+    denoiseParams: { radius: 1, rangeSigma: null, spatialSigma: 1 },
+    adjustments: { ...DEFAULT_ADJUSTMENTS, contrast: 12, saturation: 5 },
     lossless: false
   },
   webflowLike: {
     quality: 90,
     sharpen: 25,
     denoise: 25,
+    sharpenParams: { radius: 1, amount: 0.7, threshold: null },
+    denoiseParams: { radius: 2, rangeSigma: null, spatialSigma: 1.5 },
+    adjustments: { ...DEFAULT_ADJUSTMENTS, gamma: 1.05, contrast: 6, vibrance: 8 },
     lossless: false
   }
 }
 
-// BT.601 coefficients for RGB <-> YCbCr conversion
-const KR = 0.299
-const KG = 0.587
-const KB = 0.114
+/**
+ * Output size plus, for 'cover', the centred source region to keep
+ */
+interface TargetDimensions {
+  width: number
+  height: number
+  crop: { x: number; y: number; width: number; height: number } | null
+}
 
 /**
- * Extracts luminance channel from RGB data
- * Colors are preserved by only modifying luminance later
+ * Calculate target dimensions based on resize settings
  */
-function extractLuminance(data: Uint8ClampedArray, width: number, height: number): Float32Array {
-  const luminance = new Float32Array(width * height)
+function calculateTargetDimensions(
+  originalWidth: number,
+  originalHeight: number,
+  resize: ResizeSettings,
+  focalPoint: ImageFraming['focalPoint'] = null
+): TargetDimensions {
+  let width = originalWidth
+  let height = originalHeight
+  let crop: TargetDimensions['crop'] = null
   
-  for (let i = 0; i < width * height; i++) {
-    const idx = i * 4
-    // BT.601 luminance
-    luminance[i] = KR * data[idx] + KG * data[idx + 1] + KB * data[idx + 2]
+  switch (resize.mode) {
+    case 'percentage': {
+      const scale = resize.percentage / 100
+      width = originalWidth * scale
+      height = originalHeight * scale
+      break
+    }
+    case 'width': {
+      // Maintain aspect ratio based on width
+      width = resize.width
+      height = originalHeight * (resize.width / originalWidth)
+      break
+    }
+    case 'height': {
+      // Maintain aspect ratio based on height
+      width = originalWidth * (resize.height / originalHeight)
+      height = resize.height
+      break
+    }
+    case 'exact': {
+      // Use exact dimensions (may break aspect ratio)
+      width = resize.width
+      height = resize.height
+      break
+    }
+    case 'contain': {
+      // Largest size that fits inside the box
+      const scale = Math.min(resize.width / originalWidth, resize.height / originalHeight)
+      width = originalWidth * scale
+      height = originalHeight * scale
+      break
+    }
+    case 'cover': {
+      // Fill the box, cropping whatever overflows around the focal point
+      // (the centre unless one was picked), kept inside the image
+      const boxRatio = resize.width / resize.height
+      const cropWidth = Math.min(originalWidth, originalHeight * boxRatio)
+      const cropHeight = Math.min(originalHeight, originalWidth / boxRatio)
+      const focusX = (focalPoint?.x ?? 0.5) * originalWidth
+      const focusY = (focalPoint?.y ?? 0.5) * originalHeight
+      crop = {
+        x: Math.round(Math.max(0, Math.min(originalWidth - cropWidth, focusX - cropWidth / 2))),
+        y: Math.round(Math.max(0, Math.min(originalHeight - cropHeight, focusY - cropHeight / 2))),
+        width: Math.max(1, Math.round(cropWidth)),
+        height: Math.max(1, Math.round(cropHeight))
+      }
+      width = resize.width
+      height = resize.height
+      break
+    }
+    case 'longestEdge':
+    case 'shortestEdge': {
+      const edge = resize.mode === 'longestEdge'
+        ? Math.max(originalWidth, originalHeight)
+        : Math.min(originalWidth, originalHeight)
+      const scale = resize.edge / edge
+      width = originalWidth * scale
+      height = originalHeight * scale
+      break
+    }
   }
   
-  return luminance
+  // Never upscale: shrink back so neither side exceeds the source region
+  if (resize.noUpscale) {
+    const sourceWidth = crop?.width ?? originalWidth
+    const sourceHeight = crop?.height ?? originalHeight
+    const scale = Math.min(1, sourceWidth / width, sourceHeight / height)
+    width *= scale
+    height *= scale
+  }
+  
+  return {
+    width: Math.max(1, Math.round(width)),
+    height: Math.max(1, Math.round(height)),
+    crop
+  }
+}
+
+export interface ConversionVariant {
+  blob: Blob
+  quality: number
+  width: number
+  height: number
+  hash: string           // SHA-256 of the blob, hex
+}
+
+export interface ConversionResult {
+  blob: Blob
+  quality: number        // quality the output was finally encoded with (0-100)
+  width: number
+  height: number
+  hash: string           // SHA-256 of the blob, hex (for {hash} in file names)
+  withinTarget: boolean  // false only when 'targetSize' / 'perceptual' mode could not reach its target
+  metrics: QualityMetrics | null  // output vs. the rendered source; null if it couldn't be decoded
+  meetsQualityFloor: boolean      // false only when the quality floor is on and SSIM falls below it
+  privacyFindings: PrivacyFinding[] | null  // sensitive metadata in the source (privacy mode only)
+  sourceProfile: { name: string; kept: boolean } | null  // non-sRGB source profile, if any
+  variants: ConversionVariant[] | null  // responsive set, smallest first (blob is the largest)
+}
+
+// A single encoded output, before the per-source details are attached
+type EncodedOutput = Omit<ConversionResult, 'privacyFindings' | 'sourceProfile' | 'variants'>
+
+// An encode together with the pixels it was made from, before metadata and metrics
+type RenderedOutput = Pick<ConversionResult, 'blob' | 'quality' | 'width' | 'height' | 'withinTarget'> & {
+  canvas: OffscreenCanvas
+  metrics?: QualityMetrics | null   // already measured during the search
+}
+
+// Search bounds for 'targetSize' and 'perceptual' modes
+const MIN_TARGET_QUALITY = 10
+const MIN_TARGET_SCALE = 0.1
+
+/**
+ * Composites the canvas onto a solid colour, leaving it fully opaque
+ */
+function flattenCanvas(canvas: OffscreenCanvas, background: string): OffscreenCanvas {
+  const flat = new OffscreenCanvas(canvas.width, canvas.height)
+  const ctx = flat.getContext('2d')!
+  ctx.fillStyle = background
+  ctx.fillRect(0, 0, flat.width, flat.height)
+  ctx.drawImage(canvas, 0, 0)
+  return flat
 }
 
 /**
- * Applies luminance changes back to RGB while preserving original colors
- * This ensures NO color shift - only brightness/contrast changes
+ * Sets RGB to black wherever alpha is 0. Invisible either way, but
+ * uniform values compress much better in lossless mode.
  */
-function applyLuminanceToRGB(
-  data: Uint8ClampedArray, 
-  originalLuminance: Float32Array,
-  newLuminance: Float32Array,
-  width: number, 
+function cleanTransparentRgb(data: Uint8ClampedArray): void {
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) {
+      data[i] = 0
+      data[i + 1] = 0
+      data[i + 2] = 0
+    }
+  }
+}
+
+/**
+ * Bounding box of all pixels with alpha > 0, or null if there are none
+ */
+function findOpaqueBounds(
+  data: Uint8ClampedArray,
+  width: number,
   height: number
-): void {
-  for (let i = 0; i < width * height; i++) {
-    const idx = i * 4
-    const oldLum = originalLuminance[i]
-    const newLum = newLuminance[i]
+): { x: number; y: number; width: number; height: number } | null {
+  let minX = width
+  let minY = height
+  let maxX = -1
+  let maxY = -1
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue
+      if (x < minX) minX = x
+      if (x > maxX) maxX = x
+      if (y < minY) minY = y
+      if (y > maxY) maxY = y
+    }
+  }
+  
+  if (maxX < 0) return null
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 }
+}
+
+/**
+ * Crops away fully transparent borders, keeping `padding` pixels of
+ * transparent margin (added if the content touches the edge). Returns the
+ * kept region relative to the input so a focal point can follow it.
+ */
+async function trimTransparentBorders(
+  img: ImageBitmap,
+  padding: number
+): Promise<{ image: ImageBitmap; region: NormalizedRect } | null> {
+  const canvas = new OffscreenCanvas(img.width, img.height)
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!
+  ctx.drawImage(img, 0, 0)
+  
+  const bounds = findOpaqueBounds(ctx.getImageData(0, 0, img.width, img.height).data, img.width, img.height)
+  if (!bounds) return null
+  
+  const trimmed = new OffscreenCanvas(bounds.width + padding * 2, bounds.height + padding * 2)
+  trimmed.getContext('2d')!.drawImage(
+    img,
+    bounds.x, bounds.y, bounds.width, bounds.height,
+    padding, padding, bounds.width, bounds.height
+  )
+  
+  return {
+    image: await createImageBitmap(trimmed),
+    region: {
+      x: (bounds.x - padding) / img.width,
+      y: (bounds.y - padding) / img.height,
+      width: trimmed.width / img.width,
+      height: trimmed.height / img.height
+    }
+  }
+}
+
+/**
+ * Re-expresses a 0-1 point relative to a sub-region of the same image
+ */
+function toRegion(point: { x: number; y: number }, region: NormalizedRect): { x: number; y: number } {
+  return {
+    x: Math.max(0, Math.min(1, (point.x - region.x) / region.width)),
+    y: Math.max(0, Math.min(1, (point.y - region.y) / region.height))
+  }
+}
+
+/**
+ * Resizes the decoded image and runs the luminance filters.
+ * The result is ready to be encoded any number of times.
+ */
+async function renderProcessed(
+  img: ImageBitmap,
+  width: number,
+  height: number,
+  settings: ConversionSettings
+): Promise<OffscreenCanvas> {
+  const needsResize = width !== img.width || height !== img.height
+  let canvas: OffscreenCanvas
+  
+  // Browser-native resize (like CSS scaling) unless another resampler is chosen
+  if (needsResize) {
+    canvas = await resampleImage(img, width, height, settings.resize.resampler)
+  } else {
+    // No resize needed - just draw to canvas
+    canvas = new OffscreenCanvas(width, height)
+    const ctx = canvas.getContext('2d')!
+    ctx.drawImage(img, 0, 0)
+  }
+  
+  // Tone before flattening so the background colour stays as chosen
+  if (!isNeutralAdjustments(settings.adjustments)) {
+    const ctx = canvas.getContext('2d')!
+    const imageData = ctx.getImageData(0, 0, width, height)
+    applyToneAdjustments(imageData.data, settings.adjustments)
+    ctx.putImageData(imageData, 0, 0)
+  }
+  
+  // Transparency handling comes before the filters
+  if (settings.alpha.flatten) {
+    canvas = flattenCanvas(canvas, settings.alpha.background)
+  }
+  
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Failed to get canvas context')
+  }
+  
+  if (settings.alpha.cleanTransparentRgb && !settings.alpha.flatten) {
+    const imageData = ctx.getImageData(0, 0, width, height)
+    cleanTransparentRgb(imageData.data)
+    ctx.putImageData(imageData, 0, 0)
+  }
+  
+  // Process only if denoise or sharpen is enabled
+  if (settings.denoise > 0 || settings.sharpen > 0 || settings.chromaDenoise > 0) {
+    const imageData = ctx.getImageData(0, 0, width, height)
+    const data = imageData.data
     
-    // Avoid division by zero
-    if (oldLum < 0.001) {
-      // For very dark pixels, just add the luminance difference
-      const diff = newLum - oldLum
-      data[idx] = Math.max(0, Math.min(255, Math.round(data[idx] + diff)))
-      data[idx + 1] = Math.max(0, Math.min(255, Math.round(data[idx + 1] + diff)))
-      data[idx + 2] = Math.max(0, Math.min(255, Math.round(data[idx + 2] + diff)))
-    } else {
-      // Scale RGB proportionally to maintain exact color ratios
-      const scale = newLum / oldLum
-      data[idx] = Math.max(0, Math.min(255, Math.round(data[idx] * scale)))
-      data[idx + 1] = Math.max(0, Math.min(255, Math.round(data[idx + 1] * scale)))
-      data[idx + 2] = Math.max(0, Math.min(255, Math.round(data[idx + 2] * scale)))
+    // Step 0: Colour speckle first, so the luma filters see clean colours
+    denoiseChroma(data, width, height, settings.chromaDenoise)
+    
+    // Extract luminance (preserves original color information)
+    const originalLuminance = extractLuminance(data, width, height)
+    let processedLuminance = originalLuminance
+    
+    // Step 1: Denoise luminance only (both filters return new arrays)
+    if (settings.denoise > 0) {
+      processedLuminance = denoiseLuminance(processedLuminance, width, height, settings.denoise, settings.denoiseParams)
     }
-    // Alpha channel (idx + 3) is never touched
+    
+    // Step 2: Sharpen luminance only
+    if (settings.sharpen > 0) {
+      processedLuminance = sharpenLuminance(processedLuminance, width, height, settings.sharpen, settings.sharpenParams)
+    }
+    
+    // Apply luminance changes back to RGB (colors unchanged)
+    applyLuminanceToRGB(data, originalLuminance, processedLuminance, width, height)
+    
+    ctx.putImageData(imageData, 0, 0)
   }
+  
+  // Watermark last, at output size, so neither resampling nor the filters soften it
+  await drawWatermark(canvas, settings.watermark)
+  
+  return canvas
 }
 
 /**
- * Applies denoise to luminance channel only
- * Bilateral filter that preserves edges while smoothing noise
- * Colors remain completely unchanged
+ * Output size of an already processed canvas at a given quality.
+ * Only encodes - never decodes or filters again.
  */
-function denoiseLuminance(
-  luminance: Float32Array, 
-  width: number, 
-  height: number, 
-  strength: number
-): Float32Array {
-  if (strength <= 0) return luminance
-  
-  const result = new Float32Array(luminance)
-  
-  // Bilateral filter parameters
-  const sigma = (strength / 100) * 25 + 5 // Range sigma: 5-30
-  const spatialSigma = 1.2
-  const radius = Math.ceil(strength / 25) // 1-2 pixel radius
-  
-  for (let y = radius; y < height - radius; y++) {
-    for (let x = radius; x < width - radius; x++) {
-      const i = y * width + x
-      const centerValue = luminance[i]
-      
-      let sum = 0
-      let weightSum = 0
-      
-      for (let ky = -radius; ky <= radius; ky++) {
-        for (let kx = -radius; kx <= radius; kx++) {
-          const ni = (y + ky) * width + (x + kx)
-          const neighborValue = luminance[ni]
-          
-          // Spatial weight
-          const spatialDist = Math.sqrt(kx * kx + ky * ky)
-          const spatialWeight = Math.exp(-(spatialDist * spatialDist) / (2 * spatialSigma * spatialSigma))
-          
-          // Range weight (preserves edges)
-          const lumDiff = Math.abs(neighborValue - centerValue)
-          const rangeWeight = Math.exp(-(lumDiff * lumDiff) / (2 * sigma * sigma))
-          
-          const weight = spatialWeight * rangeWeight
-          sum += neighborValue * weight
-          weightSum += weight
-        }
-      }
-      
-      result[i] = sum / weightSum
+export async function estimateSize(
+  canvas: OffscreenCanvas,
+  settings: ConversionSettings,
+  quality: number
+): Promise<number> {
+  const blob = await encodeImage(canvas, settings, quality, false)
+  return blob.size
+}
+
+/**
+ * Binary-searches the highest quality whose output fits in maxBytes.
+ * Returns the fitting encode (if any) and the smallest encode seen.
+ */
+async function searchQualityForSize(
+  canvas: OffscreenCanvas,
+  settings: ConversionSettings,
+  maxBytes: number,
+  maxQuality: number
+): Promise<{ fit: { blob: Blob; quality: number } | null; smallest: { blob: Blob; quality: number } }> {
+  // Most images already fit at the requested quality
+  const first = await encodeImage(canvas, settings, maxQuality, false)
+  
+  // Nothing to search for formats without a quality knob
+  if (!OUTPUT_FORMATS[settings.outputFormat].supportsQuality) {
+    const only = { blob: first, quality: maxQuality }
+    return { fit: first.size <= maxBytes ? only : null, smallest: only }
+  }
+  
+  if (first.size <= maxBytes) {
+    return { fit: { blob: first, quality: maxQuality }, smallest: { blob: first, quality: maxQuality } }
+  }
+  
+  let fit: { blob: Blob; quality: number } | null = null
+  let smallest = { blob: first, quality: maxQuality }
+  let low = MIN_TARGET_QUALITY
+  let high = maxQuality - 1
+  
+  while (low <= high) {
+    const quality = Math.floor((low + high) / 2)
+    const blob = await encodeImage(canvas, settings, quality, false)
+    
+    if (blob.size < smallest.blob.size) {
+      smallest = { blob, quality }
+    }
+    
+    if (blob.size <= maxBytes) {
+      fit = { blob, quality }
+      low = quality + 1
+    } else {
+      high = quality - 1
     }
   }
   
-  return result
+  return { fit, smallest }
 }
 
 /**
- * Applies unsharp mask to luminance channel only
- * With threshold to avoid sharpening noise/flat areas
- * Colors remain completely unchanged
+ * 'targetSize' mode: finds the best quality that fits the byte budget.
+ * When allowed, shrinks the image as a last resort. The source is decoded
+ * once; every attempt re-encodes (and on resize, re-renders) from the bitmap.
  */
-function sharpenLuminance(
-  luminance: Float32Array,
+async function fitToTargetSize(
+  img: ImageBitmap,
   width: number,
   height: number,
-  amount: number
-): Float32Array {
-  if (amount <= 0) return luminance
+  settings: ConversionSettings
+): Promise<RenderedOutput> {
+  const { maxBytes, allowResize } = settings.targetSize
+  let scale = 1
+  
+  for (;;) {
+    const scaledWidth = Math.max(1, Math.round(width * scale))
+    const scaledHeight = Math.max(1, Math.round(height * scale))
+    const canvas = await renderProcessed(img, scaledWidth, scaledHeight, settings)
+    const { fit, smallest } = await searchQualityForSize(canvas, settings, maxBytes, settings.quality)
+    
+    if (fit) {
+      return { ...fit, width: scaledWidth, height: scaledHeight, withinTarget: true, canvas }
+    }
+    
+    if (!allowResize || scale <= MIN_TARGET_SCALE) {
+      // Best effort: the smallest file we could produce
+      return { ...smallest, width: scaledWidth, height: scaledHeight, withinTarget: false, canvas }
+    }
+    
+    // File size grows roughly with pixel count, so scale by the square root
+    // of the overshoot (with a little headroom to avoid another round)
+    scale = Math.max(MIN_TARGET_SCALE, scale * Math.sqrt(maxBytes / smallest.blob.size) * 0.95)
+  }
+}
+
+export function isIdentityTransform(transform: TransformSettings): boolean {
+  return transform.rotation === 0 &&
+    transform.angle === 0 &&
+    !transform.flipHorizontal &&
+    !transform.flipVertical
+}
+
+/**
+ * Straighten angle that levels a line drawn from (0, 0) to (dx, dy) in
+ * source pixels. Lines closer to vertical are made plumb instead.
+ */
+export function getStraightenAngle(dx: number, dy: number, transform: TransformSettings): number {
+  if (dx === 0 && dy === 0) return 0
   
-  const result = new Float32Array(luminance)
+  let tilt = Math.atan2(dy, dx) * 180 / Math.PI
+  // Deviation from the nearest axis, -45 to 45
+  tilt -= Math.round(tilt / 90) * 90
   
-  const strength = (amount / 100) * 0.7 // Max 70% to avoid halos
-  const threshold = 3 + (60 - amount) * 0.15 // Adaptive threshold
-  const radius = 1
+  // A single mirror flips the line's slope before the rotation sees it
+  const mirrored = transform.flipHorizontal !== transform.flipVertical
+  const angle = mirrored ? tilt : -tilt
+  return Math.round(Math.max(-MAX_STRAIGHTEN_ANGLE, Math.min(MAX_STRAIGHTEN_ANGLE, angle)) * 10) / 10
+}
+
+export interface TransformGeometry {
+  sourceWidth: number
+  sourceHeight: number
+  width: number
+  height: number
+  matrix: [number, number, number, number, number, number]   // canvas setTransform order
+}
+
+/**
+ * Output size and source-to-output matrix for a transform. Straightened
+ * images are cropped to the largest rectangle of the same aspect ratio
+ * that fits inside the rotated image, so no empty corners appear.
+ */
+export function getTransformGeometry(sourceWidth: number, sourceHeight: number, transform: TransformSettings): TransformGeometry {
+  const quarterTurn = transform.rotation % 180 !== 0
+  const rotatedWidth = quarterTurn ? sourceHeight : sourceWidth
+  const rotatedHeight = quarterTurn ? sourceWidth : sourceHeight
   
-  // Create blurred version
-  const blurred = new Float32Array(luminance.length)
+  const tilt = Math.abs(transform.angle) * Math.PI / 180
+  const cosTilt = Math.cos(tilt)
+  const sinTilt = Math.sin(tilt)
+  const scale = Math.min(
+    rotatedWidth / (rotatedWidth * cosTilt + rotatedHeight * sinTilt),
+    rotatedHeight / (rotatedWidth * sinTilt + rotatedHeight * cosTilt)
+  )
+  const width = Math.max(1, Math.floor(rotatedWidth * scale + 1e-6))
+  const height = Math.max(1, Math.floor(rotatedHeight * scale + 1e-6))
   
-  for (let y = radius; y < height - radius; y++) {
-    for (let x = radius; x < width - radius; x++) {
-      const i = y * width + x
-      let sum = 0
-      let count = 0
-      
-      for (let ky = -radius; ky <= radius; ky++) {
-        for (let kx = -radius; kx <= radius; kx++) {
-          sum += luminance[(y + ky) * width + (x + kx)]
-          count++
-        }
-      }
-      
-      blurred[i] = sum / count
+  // Exact matrices for quarter turns so pixels map one to one
+  const theta = (transform.rotation + transform.angle) * Math.PI / 180
+  const cos = transform.angle === 0 ? Math.round(Math.cos(theta)) : Math.cos(theta)
+  const sin = transform.angle === 0 ? Math.round(Math.sin(theta)) : Math.sin(theta)
+  const scaleX = transform.flipHorizontal ? -1 : 1
+  const scaleY = transform.flipVertical ? -1 : 1
+  
+  // translate(out centre) · rotate · flip · translate(-source centre)
+  const a = cos * scaleX
+  const b = sin * scaleX
+  const c = -sin * scaleY
+  const d = cos * scaleY
+  const e = width / 2 - (a * sourceWidth + c * sourceHeight) / 2
+  const f = height / 2 - (b * sourceWidth + d * sourceHeight) / 2
+  
+  return { sourceWidth, sourceHeight, width, height, matrix: [a, b, c, d, e, f] }
+}
+
+/**
+ * Moves a 0-1 point on the source to the same spot on the transformed image
+ */
+function transformPoint(point: { x: number; y: number }, geometry: TransformGeometry): { x: number; y: number } {
+  const [a, b, c, d, e, f] = geometry.matrix
+  const x = point.x * geometry.sourceWidth
+  const y = point.y * geometry.sourceHeight
+  return {
+    x: Math.max(0, Math.min(1, (a * x + c * y + e) / geometry.width)),
+    y: Math.max(0, Math.min(1, (b * x + d * y + f) / geometry.height))
+  }
+}
+
+/**
+ * Rotates, flips and straightens a bitmap
+ */
+async function applyTransform(
+  img: ImageBitmap,
+  transform: TransformSettings
+): Promise<{ image: ImageBitmap; geometry: TransformGeometry }> {
+  const geometry = getTransformGeometry(img.width, img.height, transform)
+  const canvas = new OffscreenCanvas(geometry.width, geometry.height)
+  const ctx = canvas.getContext('2d')!
+  ctx.imageSmoothingQuality = 'high'
+  ctx.setTransform(...geometry.matrix)
+  ctx.drawImage(img, 0, 0)
+  
+  return { image: await createImageBitmap(canvas), geometry }
+}
+
+/**
+ * Converts a bitmap decoded without colour conversion to sRGB
+ */
+async function convertBitmapToSrgb(img: ImageBitmap, profile: IccProfile): Promise<ImageBitmap> {
+  const canvas = new OffscreenCanvas(img.width, img.height)
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!
+  ctx.drawImage(img, 0, 0)
+  
+  const imageData = ctx.getImageData(0, 0, img.width, img.height)
+  convertImageDataToSrgb(imageData, profile)
+  ctx.putImageData(imageData, 0, 0)
+  
+  return createImageBitmap(canvas)
+}
+
+/**
+ * Bytes embedMetadata adds: VP8X plus a header for every metadata chunk
+ */
+function getMetadataOverhead(metadata: ImageMetadata): number {
+  const chunks = [metadata.exif, metadata.icc, metadata.xmp].filter(data => data !== null)
+  if (chunks.length === 0) return 0
+  return 18 + chunks.reduce((sum, data) => sum + 8 + data.length + (data.length & 1), 0)
+}
+
+/**
+ * Writes the kept metadata into the encoded file. In privacy mode the
+ * result is parsed again and rejected if anything sensitive got through.
+ */
+async function finalizeOutput(blob: Blob, metadata: ImageMetadata, settings: ConversionSettings): Promise<Blob> {
+  let output = blob
+  if (getMetadataOverhead(metadata) > 0) {
+    const webp = embedMetadata(new Uint8Array(await blob.arrayBuffer()), metadata)
+    output = new Blob([webp], { type: blob.type })
+  }
+  
+  if (settings.metadata.privacy) {
+    const leaked = scanPrivacy(await readMetadata(new Uint8Array(await output.arrayBuffer())))
+    if (leaked.length > 0) {
+      throw new Error(`Privacy check failed: output still contains ${leaked.join(', ')}`)
     }
   }
   
-  // Apply unsharp mask with threshold
-  for (let y = radius; y < height - radius; y++) {
-    for (let x = radius; x < width - radius; x++) {
-      const i = y * width + x
-      const diff = luminance[i] - blurred[i]
-      
-      // Only sharpen if difference exceeds threshold (real edges)
-      if (Math.abs(diff) > threshold) {
-        // Smooth transition above threshold
-        const edgeFactor = Math.min(1, (Math.abs(diff) - threshold) / 15)
-        const sharpenAmount = diff * strength * edgeFactor
-        result[i] = Math.max(0, Math.min(255, luminance[i] + sharpenAmount))
-      }
+  return output
+}
+
+function getPixels(canvas: OffscreenCanvas): ImageData {
+  return canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+/**
+ * Decodes an encoded output back to pixels. Null when this browser can't
+ * decode the format.
+ */
+async function decodeOutput(blob: Blob, width: number, height: number): Promise<ImageData | null> {
+  try {
+    const decoded = await createImageBitmap(blob, { colorSpaceConversion: 'none', premultiplyAlpha: 'none' })
+    const output = new OffscreenCanvas(width, height)
+    const ctx = output.getContext('2d', { willReadFrequently: true })!
+    ctx.drawImage(decoded, 0, 0)
+    decoded.close()
+    return ctx.getImageData(0, 0, width, height)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Background the metrics composite transparency onto: formats without
+ * alpha are compared after the same flattening the encoder applied
+ */
+function getMetricsBackground(settings: ConversionSettings): Background | undefined {
+  return OUTPUT_FORMATS[settings.outputFormat].supportsAlpha ? undefined : OPAQUE_BACKGROUND
+}
+
+/**
+ * Compares an encoded output with the pixels it was encoded from
+ */
+async function measureOutput(canvas: OffscreenCanvas, blob: Blob, settings: ConversionSettings): Promise<QualityMetrics | null> {
+  const output = await decodeOutput(blob, canvas.width, canvas.height)
+  return output && measureQuality(getPixels(canvas), output, getMetricsBackground(settings))
+}
+
+/**
+ * 'perceptual' mode: binary-searches the lowest quality whose output still
+ * scores at least the target. The image is rendered and prepared as a
+ * metrics reference once; every attempt only encodes and decodes.
+ */
+async function fitToPerceptualTarget(
+  img: ImageBitmap,
+  width: number,
+  height: number,
+  settings: ConversionSettings
+): Promise<RenderedOutput> {
+  const { metric, target } = settings.perceptualTarget
+  const canvas = await renderProcessed(img, width, height, settings)
+  const maxQuality = settings.quality
+  const first = await encodeImage(canvas, settings, maxQuality, false)
+  
+  // Nothing to search for formats without a quality knob
+  if (!OUTPUT_FORMATS[settings.outputFormat].supportsQuality) {
+    return { blob: first, quality: maxQuality, width, height, withinTarget: true, canvas }
+  }
+  
+  // Against what the encoder actually saw, or JPEG of a transparent source
+  // could never reach the target
+  const reference = prepareReference(getPixels(canvas), getMetricsBackground(settings))
+  const measure = async (blob: Blob) => {
+    const output = await decodeOutput(blob, width, height)
+    return output && compareToReference(reference, output)
+  }
+  
+  // Can't score it (undecodable) or even the best quality misses: keep that
+  const firstMetrics = await measure(first)
+  if (!firstMetrics || firstMetrics[metric] < target) {
+    return { blob: first, quality: maxQuality, width, height, withinTarget: !firstMetrics, canvas, metrics: firstMetrics }
+  }
+  
+  let fit = { blob: first, quality: maxQuality, metrics: firstMetrics }
+  let low = MIN_TARGET_QUALITY
+  let high = maxQuality - 1
+  
+  while (low <= high) {
+    const quality = Math.floor((low + high) / 2)
+    const blob = await encodeImage(canvas, settings, quality, false)
+    const metrics = await measure(blob)
+    
+    if (metrics && metrics[metric] >= target) {
+      fit = { blob, quality, metrics }
+      high = quality - 1
+    } else {
+      low = quality + 1
     }
   }
   
-  return result
+  return { ...fit, width, height, withinTarget: true, canvas }
 }
 
 /**
- * Browser-native resize - simulates CSS scaling behavior
- * 
- * This approach keeps the full resolution and lets Canvas drawImage
- * do the entire downscale in one step - exactly like when the browser
- * renders a large image in a small CSS container.
- * 
- * The browser's native algorithm (with imageSmoothingQuality: 'high')
- * has access to all original pixels and produces the smoothest results.
+ * Encodes the prepared image at one size in the configured quality mode,
+ * measures it and adds the selected metadata
  */
-function browserNativeResize(
-  img: HTMLImageElement,
-  targetWidth: number,
-  targetHeight: number
-): HTMLCanvasElement {
-  const destCanvas = document.createElement('canvas')
-  destCanvas.width = targetWidth
-  destCanvas.height = targetHeight
-  
-  const ctx = destCanvas.getContext('2d')!
-  ctx.imageSmoothingEnabled = true
-  ctx.imageSmoothingQuality = 'high'
+async function encodeOutput(
+  img: ImageBitmap,
+  width: number,
+  height: number,
+  settings: ConversionSettings,
+  metadata: ImageMetadata
+): Promise<EncodedOutput> {
+  let rendered: RenderedOutput
+  
+  if (settings.qualityMode === 'targetSize') {
+    // Leave room in the budget for the metadata added afterwards
+    const overhead = getMetadataOverhead(metadata)
+    rendered = await fitToTargetSize(img, width, height, {
+      ...settings,
+      targetSize: { ...settings.targetSize, maxBytes: Math.max(1, settings.targetSize.maxBytes - overhead) }
+    })
+  } else if (settings.qualityMode === 'perceptual') {
+    rendered = await fitToPerceptualTarget(img, width, height, settings)
+  } else {
+    const canvas = await renderProcessed(img, width, height, settings)
+    const { supportsQuality, supportsLossless } = OUTPUT_FORMATS[settings.outputFormat]
+    const lossless = settings.lossless && supportsLossless
+    const quality = lossless || !supportsQuality ? 100 : settings.quality
+    const blob = await encodeImage(canvas, settings, quality, lossless)
+    rendered = { blob, quality, width, height, withinTarget: true, canvas }
+  }
   
-  // Single-step resize from full resolution to target
-  // This is exactly what the browser does with CSS scaling
-  ctx.drawImage(img, 0, 0, targetWidth, targetHeight)
+  // Measured before metadata goes in - it doesn't change the pixels
+  const metrics = rendered.metrics !== undefined ? rendered.metrics : await measureOutput(rendered.canvas, rendered.blob, settings)
+  const floor = settings.qualityFloor
   
-  return destCanvas
+  const blob = await finalizeOutput(rendered.blob, metadata, settings)
+  return {
+    blob,
+    hash: await hashContent(blob),
+    quality: rendered.quality,
+    width: rendered.width,
+    height: rendered.height,
+    withinTarget: rendered.withinTarget,
+    metrics,
+    meetsQualityFloor: !floor.enabled || !metrics || metrics.ssim >= floor.minSsim
+  }
 }
 
 /**
- * Calculate target dimensions based on resize settings
+ * Sorted, de-duplicated responsive widths. Widths beyond the source are
+ * never upscaled; they collapse into a single source-width variant.
  */
-function calculateTargetDimensions(
-  originalWidth: number,
-  originalHeight: number,
-  resize: ResizeSettings
-): { width: number; height: number } {
-  switch (resize.mode) {
-    case 'percentage': {
-      const scale = resize.percentage / 100
-      return {
-        width: Math.round(originalWidth * scale),
-        height: Math.round(originalHeight * scale)
+function getResponsiveWidths(sourceWidth: number, widths: number[]): number[] {
+  const result = new Set<number>()
+  for (const width of widths) {
+    if (width > 0) result.add(Math.min(Math.round(width), sourceWidth))
+  }
+  if (result.size === 0) result.add(sourceWidth)
+  return [...result].sort((a, b) => a - b)
+}
+
+/**
+ * Full decode → resize → luminance filters → encode pipeline.
+ * 
+ * Relies on createImageBitmap and OffscreenCanvas only, so it runs inside
+ * the converter worker (see src/workers/converter.worker.ts) and never
+ * blocks the UI thread. Use ConversionPool from the main thread.
+ */
+export async function convertToWebP(
+  source: Blob,
+  settings: ConversionSettings,
+  framing: ImageFraming = DEFAULT_FRAMING
+): Promise<ConversionResult> {
+  const sourceMetadata = await readMetadata(new Uint8Array(await source.arrayBuffer()))
+  const privacyFindings = settings.metadata.privacy ? scanPrivacy(sourceMetadata) : null
+  
+  // Colour: keep the source profile (WebP can carry it), convert matrix/TRC
+  // profiles ourselves, and leave LUT profiles to the browser's decoder
+  const profile = sourceMetadata.icc ? parseIccProfile(sourceMetadata.icc) : null
+  const keepProfile = settings.colorManagement === 'keepProfile' &&
+    settings.outputFormat === 'webp' &&
+    sourceMetadata.icc !== null
+  const transformProfile = !keepProfile && profile?.matrix && !profile.isSrgb ? profile : null
+  
+  // Metadata can only be written into WebP output
+  const metadata: ImageMetadata = settings.outputFormat === 'webp'
+    ? {
+        ...selectMetadata(sourceMetadata, settings.metadata.mode, settings.metadata.privacy),
+        icc: keepProfile ? sourceMetadata.icc : null
       }
+    : EMPTY_METADATA
+  const sourceProfile = profile && !profile.isSrgb
+    ? { name: profile.name || 'Embedded profile', kept: keepProfile }
+    : null
+  
+  let img: ImageBitmap
+  try {
+    // The decoder applies the EXIF orientation. Raw pixel values are
+    // needed when the profile is kept or converted here.
+    img = await createImageBitmap(source, {
+      imageOrientation: 'from-image',
+      colorSpaceConversion: keepProfile || transformProfile ? 'none' : 'default'
+    })
+  } catch {
+    throw new Error('Failed to load image')
+  }
+  
+  try {
+    // Into sRGB before any filter sees the pixels
+    if (transformProfile) {
+      const converted = await convertBitmapToSrgb(img, transformProfile)
+      img.close()
+      img = converted
     }
-    case 'width': {
-      // Maintain aspect ratio based on width
-      const scale = resize.width / originalWidth
-      return {
-        width: resize.width,
-        height: Math.round(originalHeight * scale)
+    
+    let focalPoint = framing.focalPoint
+    
+    // Manual crop first - every resize mode then works on the cropped image
+    if (framing.crop) {
+      const x = Math.round(framing.crop.x * img.width)
+      const y = Math.round(framing.crop.y * img.height)
+      const width = Math.max(1, Math.min(img.width - x, Math.round(framing.crop.width * img.width)))
+      const height = Math.max(1, Math.min(img.height - y, Math.round(framing.crop.height * img.height)))
+      const cropped = await createImageBitmap(img, x, y, width, height)
+      img.close()
+      img = cropped
+      
+      // Focal point is picked on the full image; make it crop-relative
+      if (focalPoint) {
+        focalPoint = toRegion(focalPoint, framing.crop)
       }
     }
-    case 'height': {
-      // Maintain aspect ratio based on height
-      const scale = resize.height / originalHeight
-      return {
-        width: Math.round(originalWidth * scale),
-        height: resize.height
+    
+    // Rotate / flip / straighten the cropped image; resize targets below
+    // then refer to the transformed geometry
+    const transform = framing.transform ?? settings.transform
+    if (!isIdentityTransform(transform)) {
+      const transformed = await applyTransform(img, transform)
+      img.close()
+      img = transformed.image
+      if (focalPoint) {
+        focalPoint = transformPoint(focalPoint, transformed.geometry)
       }
     }
-    case 'exact': {
-      // Use exact dimensions (may break aspect ratio)
-      return {
-        width: resize.width,
-        height: resize.height
+    
+    // Then transparent borders, so resize modes size the visible content
+    if (settings.alpha.trim) {
+      const trimmed = await trimTransparentBorders(img, settings.alpha.trimPadding)
+      if (trimmed) {
+        img.close()
+        img = trimmed.image
+        if (focalPoint) {
+          focalPoint = toRegion(focalPoint, trimmed.region)
+        }
       }
     }
-    default:
-      return { width: originalWidth, height: originalHeight }
-  }
-}
-
-export async function convertToWebP(
-  file: File,
-  settings: ConversionSettings
-): Promise<Blob> {
-  return new Promise((resolve, reject) => {
-    const img = new Image()
-    const url = URL.createObjectURL(file)
     
-    img.onload = async () => {
-      try {
-        // Calculate new dimensions based on resize mode
-        const { width, height } = calculateTargetDimensions(
-          img.width,
-          img.height,
-          settings.resize
-        )
-        
-        const needsResize = width !== img.width || height !== img.height
-        let canvas: HTMLCanvasElement
-        
-        // Use browser-native resize (like CSS scaling)
-        // This produces the smoothest, most natural results
-        if (needsResize) {
-          canvas = browserNativeResize(img, width, height)
-        } else {
-          // No resize needed - just draw to canvas
-          canvas = document.createElement('canvas')
-          canvas.width = width
-          canvas.height = height
-          const ctx = canvas.getContext('2d')!
-          ctx.drawImage(img, 0, 0)
-        }
-        
-        const ctx = canvas.getContext('2d')
-        if (!ctx) {
-          reject(new Error('Failed to get canvas context'))
-          return
-        }
-        
-        // Process only if denoise or sharpen is enabled
-        if (settings.denoise > 0 || settings.sharpen > 0) {
-          const imageData = ctx.getImageData(0, 0, width, height)
-          const data = imageData.data
-          
-          // Extract luminance (preserves original color information)
-          const originalLuminance = extractLuminance(data, width, height)
-          let processedLuminance: Float32Array = Float32Array.from(originalLuminance)
-          
-          // Step 1: Denoise luminance only
-          if (settings.denoise > 0) {
-            processedLuminance = Float32Array.from(denoiseLuminance(processedLuminance, width, height, settings.denoise))
-          }
-          
-          // Step 2: Sharpen luminance only
-          if (settings.sharpen > 0) {
-            processedLuminance = Float32Array.from(sharpenLuminance(processedLuminance, width, height, settings.sharpen))
-          }
-          
-          // Apply luminance changes back to RGB (colors unchanged)
-          applyLuminanceToRGB(data, originalLuminance, processedLuminance, width, height)
-          
-          ctx.putImageData(imageData, 0, 0)
-        }
-        
-        // Convert to WebP
-        const quality = settings.lossless ? 1 : settings.quality / 100
-        const mimeType = 'image/webp'
-        
-        canvas.toBlob(
-          (blob) => {
-            URL.revokeObjectURL(url)
-            if (blob) {
-              resolve(blob)
-            } else {
-              reject(new Error('Failed to convert image'))
-            }
-          },
-          mimeType,
-          quality
-        )
-      } catch (error) {
-        URL.revokeObjectURL(url)
-        reject(error)
+    // Responsive set: every width from this one decode, resize settings don't apply
+    if (settings.responsive.enabled) {
+      const variants: EncodedOutput[] = []
+      for (const variantWidth of getResponsiveWidths(img.width, settings.responsive.widths)) {
+        const variantHeight = Math.max(1, Math.round(img.height * variantWidth / img.width))
+        variants.push(await encodeOutput(img, variantWidth, variantHeight, settings, metadata))
+      }
+      
+      const largest = variants[variants.length - 1]
+      return {
+        ...largest,
+        withinTarget: variants.every(variant => variant.withinTarget),
+        meetsQualityFloor: variants.every(variant => variant.meetsQualityFloor),
+        privacyFindings,
+        sourceProfile,
+        variants: variants.map(({ blob, quality, width, height, hash }) => ({ blob, quality, width, height, hash }))
       }
     }
     
-    img.onerror = () => {
-      URL.revokeObjectURL(url)
-      reject(new Error('Failed to load image'))
+    // Calculate new dimensions based on resize mode
+    const { width, height, crop } = calculateTargetDimensions(
+      img.width,
+      img.height,
+      settings.resize,
+      focalPoint
+    )
+    
+    // 'cover': continue with just the visible region of the source
+    if (crop) {
+      const cropped = await createImageBitmap(img, crop.x, crop.y, crop.width, crop.height)
+      img.close()
+      img = cropped
     }
     
-    img.src = url
-  })
+    const output = await encodeOutput(img, width, height, settings, metadata)
+    return { ...output, privacyFindings, sourceProfile, variants: null }
+  } finally {
+    img.close()
+  }
 }
 
-export async function estimateSize(
-  file: File,
-  settings: ConversionSettings
-): Promise<number> {
-  const blob = await convertToWebP(file, settings)
-  return blob.size
+/**
+ * Settings with sequence and image overrides layered on top, in order
+ */
+export function applySettingsOverride(
+  settings: ConversionSettings,
+  ...overrides: (SettingsOverride | null)[]
+): ConversionSettings {
+  return overrides.reduce<ConversionSettings>((result, override) => (override ? { ...result, ...override } : result), settings)
 }
 
-export function getWebPFileName(originalName: string): string {
-  return originalName.replace(/\.[^/.]+$/, '.webp')
+/**
+ * Back to DEFAULT_SETTINGS, except the watermark: it is saved between
+ * visits and would otherwise be wiped from storage as well
+ */
+export function resetSettings(currentSettings: ConversionSettings): ConversionSettings {
+  return { ...DEFAULT_SETTINGS, watermark: currentSettings.watermark }
 }
 
 export function applyPreset(preset: QualityPreset, currentSettings: ConversionSettings): ConversionSettings {
+  // Custom keeps what's set, tone included; its neutral block is only the
+  // starting point DEFAULT_SETTINGS uses
   if (preset === 'custom') {
     return { ...currentSettings, preset }
   }
   
-  // Apply preset but NEVER change resize settings
+  // Apply preset (tone adjustments included) but NEVER change resize settings
   // Resize is independent of quality presets
   const { resize } = currentSettings
   
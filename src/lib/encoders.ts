@@ -0,0 +1,184 @@
+import type { ConversionSettings } from '@/lib/converter'
+import { OUTPUT_FORMATS, OUTPUT_FORMAT_ORDER, OutputFormat } from '@/lib/formats'
+import type { Background } from '@/lib/quality-metrics'
+
+/**
+ * Output encoders. Worker-only: everything works on OffscreenCanvas.
+ *
+ * WebP and AVIF use the browser's own encoder by default. libwebp, MozJPEG
+ * and OxiPNG are bundled WebAssembly (loaded on first use), so their output
+ * is the same in every browser.
+ */
+
+/**
+ * Encodes with OffscreenCanvas.convertToBlob. Browsers that can't encode a
+ * type silently fall back to PNG - that case returns null.
+ */
+async function encodeNative(
+  canvas: OffscreenCanvas,
+  format: OutputFormat,
+  quality: number
+): Promise<Blob | null> {
+  const { mimeType } = OUTPUT_FORMATS[format]
+  let blob: Blob
+  
+  try {
+    blob = await canvas.convertToBlob({ type: mimeType, quality })
+  } catch {
+    throw new Error('Failed to convert image')
+  }
+  
+  return blob.type === mimeType ? blob : null
+}
+
+async function encodeNativeOrThrow(
+  canvas: OffscreenCanvas,
+  format: OutputFormat,
+  quality: number
+): Promise<Blob> {
+  const blob = await encodeNative(canvas, format, quality)
+  if (!blob) {
+    throw new Error(`${OUTPUT_FORMATS[format].label} encoding is not supported in this browser`)
+  }
+  return blob
+}
+
+function getImageData(canvas: OffscreenCanvas): ImageData {
+  return canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+/** What formats without alpha are flattened onto (otherwise transparent areas turn black) */
+export const OPAQUE_BACKGROUND: Background = [255, 255, 255]
+
+/**
+ * Pixels for formats without alpha, composited onto OPAQUE_BACKGROUND
+ */
+function getOpaqueImageData(canvas: OffscreenCanvas): ImageData {
+  const flat = new OffscreenCanvas(canvas.width, canvas.height)
+  const ctx = flat.getContext('2d')!
+  ctx.fillStyle = `rgb(${OPAQUE_BACKGROUND.join(', ')})`
+  ctx.fillRect(0, 0, flat.width, flat.height)
+  ctx.drawImage(canvas, 0, 0)
+  return ctx.getImageData(0, 0, flat.width, flat.height)
+}
+
+/**
+ * libwebp (cwebp) with the full option set
+ */
+async function encodeLibWebP(
+  canvas: OffscreenCanvas,
+  quality: number,
+  lossless: boolean,
+  settings: ConversionSettings
+): Promise<Blob> {
+  const { default: encode } = await import('@jsquash/webp/encode.js')
+  const options = settings.formatOptions.webp
+  
+  const buffer = await encode(getImageData(canvas), {
+    quality,
+    lossless: lossless ? 1 : 0,
+    method: options.method,
+    alpha_quality: options.alphaQuality,
+    near_lossless: lossless ? options.nearLossless : 100,
+    sns_strength: options.snsStrength,
+    filter_strength: options.filterStrength,
+    exact: options.exact ? 1 : 0,
+    use_sharp_yuv: options.sharpYuv ? 1 : 0
+  })
+  
+  return new Blob([buffer], { type: OUTPUT_FORMATS.webp.mimeType })
+}
+
+async function encodeWebP(
+  canvas: OffscreenCanvas,
+  quality: number,
+  lossless: boolean,
+  settings: ConversionSettings
+): Promise<Blob> {
+  if (settings.formatOptions.webp.encoder === 'browser') {
+    const blob = await encodeNative(canvas, 'webp', lossless ? 1 : quality / 100)
+    if (blob) return blob
+    // No native WebP encoder (e.g. older Safari) - libwebp always works
+  }
+  
+  return encodeLibWebP(canvas, quality, lossless, settings)
+}
+
+async function encodeJpeg(
+  canvas: OffscreenCanvas,
+  quality: number,
+  settings: ConversionSettings
+): Promise<Blob> {
+  const { default: encode } = await import('@jsquash/jpeg/encode.js')
+  const { progressive, chromaSubsampling } = settings.formatOptions.jpeg
+  
+  const buffer = await encode(getOpaqueImageData(canvas), {
+    quality,
+    progressive,
+    optimize_coding: true,
+    auto_subsample: chromaSubsampling,
+    chroma_subsample: chromaSubsampling ? 2 : 1
+  })
+  
+  return new Blob([buffer], { type: OUTPUT_FORMATS.jpeg.mimeType })
+}
+
+async function encodePng(
+  canvas: OffscreenCanvas,
+  settings: ConversionSettings
+): Promise<Blob> {
+  const { default: optimise } = await import('@jsquash/oxipng/optimise.js')
+  const { level, interlace } = settings.formatOptions.png
+  
+  const png = await encodeNativeOrThrow(canvas, 'png', 1)
+  const buffer = await optimise(await png.arrayBuffer(), { level, interlace })
+  
+  return new Blob([buffer], { type: OUTPUT_FORMATS.png.mimeType })
+}
+
+/**
+ * Encodes a processed canvas in the configured output format.
+ * Quality is 0-100 and ignored by formats that are always lossless.
+ */
+export async function encodeImage(
+  canvas: OffscreenCanvas,
+  settings: ConversionSettings,
+  quality: number,
+  lossless: boolean = settings.lossless
+): Promise<Blob> {
+  switch (settings.outputFormat) {
+    case 'webp':
+      return encodeWebP(canvas, quality, lossless, settings)
+    case 'avif':
+      return encodeNativeOrThrow(canvas, 'avif', quality / 100)
+    case 'jpeg':
+      return encodeJpeg(canvas, quality, settings)
+    case 'png':
+      return encodePng(canvas, settings)
+  }
+}
+
+/**
+ * Formats this runtime can produce. Formats with a WASM encoder always
+ * work; AVIF depends on the browser and is probed with a 1x1 canvas.
+ */
+export async function detectEncodableFormats(): Promise<OutputFormat[]> {
+  const canvas = new OffscreenCanvas(1, 1)
+  canvas.getContext('2d')!.fillRect(0, 0, 1, 1)
+  
+  const supported: OutputFormat[] = []
+  for (const format of OUTPUT_FORMAT_ORDER) {
+    if (format !== 'avif') {
+      supported.push(format)
+      continue
+    }
+    
+    try {
+      if (await encodeNative(canvas, format, 0.5)) supported.push(format)
+    } catch {
+      // Not encodable here
+    }
+  }
+  
+  return supported
+}
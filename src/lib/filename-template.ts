@@ -0,0 +1,193 @@
+import type { ConversionVariant, QualityPreset } from '@/lib/converter'
+import { OUTPUT_FORMATS, OutputFormat } from '@/lib/formats'
+import type { ImageFile } from '@/lib/sequence-detector'
+
+/**
+ * Output file names from a template such as
+ * `{base}_{width}x{height}_q{quality}{frame:04}`. The output format's
+ * extension is always appended; a trailing `.webp` / `.jpg` etc. in the
+ * template is dropped so it can't disagree with the real format.
+ *
+ * Tokens:
+ *   {name}       original file name without extension
+ *   {base}       sequence base name (the name without its frame number)
+ *   {frame}      frame number; {frame:04} pads it to 4 digits. Empty for single images
+ *   {ext}        original extension, without the dot
+ *   {width} {height}  output dimensions
+ *   {quality}    quality the output was encoded with
+ *   {preset}     quality preset used for the conversion
+ *   {hash}       SHA-256 of the output; {hash:12} sets the length (default 8)
+ *   {date}       download date, YYYY-MM-DD
+ */
+
+export const DEFAULT_FILENAME_TEMPLATE = '{name}'
+
+export const FILENAME_TOKENS = ['name', 'base', 'frame', 'ext', 'width', 'height', 'quality', 'preset', 'hash', 'date'] as const
+
+export type FileNameToken = typeof FILENAME_TOKENS[number]
+
+export interface FileNameFields {
+  name: string
+  baseName: string
+  frameNumber: number | null
+  width: number
+  height: number
+  quality: number | null
+  preset: QualityPreset | null
+  hash: string | null
+  format: OutputFormat
+}
+
+const TOKEN_PATTERN = /\{(\w+)(?::(\d+))?\}/g
+
+const DEFAULT_HASH_LENGTH = 8
+
+// Characters no file system accepts; control characters are checked by code
+const UNSAFE_CHARACTERS = new Set('/\\:*?"<>|')
+
+/**
+ * Replaces unsafe and control characters with `_`
+ */
+function sanitizeFileName(fileName: string): string {
+  return Array.from(fileName, char => UNSAFE_CHARACTERS.has(char) || char.charCodeAt(0) < 0x20 ? '_' : char).join('')
+}
+
+function splitExtension(fileName: string): { stem: string; extension: string } {
+  const match = fileName.match(/^(.*)\.([^/.]+)$/)
+  return match ? { stem: match[1], extension: match[2] } : { stem: fileName, extension: '' }
+}
+
+/**
+ * Drops a trailing output-format extension typed into a template
+ */
+function stripOutputExtension(fileName: string): string {
+  const knownExtensions = Object.values(OUTPUT_FORMATS).flatMap(format => [format.extension, 'jpeg'])
+  const { stem, extension } = splitExtension(fileName)
+  return knownExtensions.includes(extension.toLowerCase()) ? stem : fileName
+}
+
+function formatDate(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * First token the template doesn't know, or null when it's valid
+ */
+export function findUnknownToken(template: string): string | null {
+  for (const [token, name] of template.matchAll(TOKEN_PATTERN)) {
+    if (!(FILENAME_TOKENS as readonly string[]).includes(name)) return token
+  }
+  return null
+}
+
+export function renderFileName(template: string, fields: FileNameFields, date: Date = new Date()): string {
+  const source = splitExtension(fields.name)
+
+  // An output extension typed into the template is replaced by the real one
+  const rendered = stripOutputExtension(template).replace(TOKEN_PATTERN, (token, name: string, argument?: string) => {
+    switch (name as FileNameToken) {
+      case 'name': return source.stem
+      case 'base': return fields.baseName
+      case 'frame':
+        if (fields.frameNumber === null) return ''
+        return argument ? fields.frameNumber.toString().padStart(parseInt(argument, 10), '0') : fields.frameNumber.toString()
+      case 'ext': return source.extension.toLowerCase()
+      case 'width': return fields.width.toString()
+      case 'height': return fields.height.toString()
+      case 'quality': return fields.quality?.toString() ?? ''
+      case 'preset': return fields.preset ?? ''
+      case 'hash': return fields.hash?.slice(0, argument ? parseInt(argument, 10) : DEFAULT_HASH_LENGTH) ?? ''
+      case 'date': return formatDate(date)
+      default: return token
+    }
+  })
+
+  const safe = sanitizeFileName(rendered).trim() || source.stem || 'image'
+  return `${safe}.${OUTPUT_FORMATS[fields.format].extension}`
+}
+
+/**
+ * Name of a converted image, or of one width of its responsive set.
+ * Variants get a `-960w` suffix unless the template already uses {width}.
+ */
+export function getImageFileName(
+  image: ImageFile,
+  template: string,
+  variant: ConversionVariant | null = null,
+  date: Date = new Date()
+): string {
+  const format = image.outputFormat ?? 'webp'
+  const output = variant ?? {
+    width: image.outputWidth ?? 0,
+    height: image.outputHeight ?? 0,
+    quality: image.chosenQuality,
+    hash: image.contentHash
+  }
+
+  const variantTemplate = variant && !template.includes('{width}')
+    ? `${stripOutputExtension(template)}-{width}w`
+    : template
+
+  return renderFileName(variantTemplate, {
+    name: image.name,
+    baseName: image.baseName,
+    frameNumber: image.frameNumber,
+    width: output.width,
+    height: output.height,
+    quality: output.quality,
+    preset: image.preset,
+    hash: output.hash,
+    format
+  }, date)
+}
+
+/**
+ * Makes a name unique within `used` by adding -2, -3, ... before the extension
+ */
+export function uniqueFileName(fileName: string, used: Set<string>): string {
+  const { stem, extension } = splitExtension(fileName)
+  let candidate = fileName
+  for (let counter = 2; used.has(candidate); counter++) {
+    candidate = `${stem}-${counter}.${extension}`
+  }
+  used.add(candidate)
+  return candidate
+}
+
+export interface OutputFile {
+  name: string
+  blob: Blob
+  variant: ConversionVariant | null   // the width of a responsive set it is
+}
+
+/**
+ * Files the converted images of one sequence produce, by image id: every
+ * width of a responsive set, otherwise the single converted file. Names
+ * are made unique across the sequence, so templates without per-file
+ * tokens don't overwrite each other. Downloads and the srcset snippet both
+ * use this, so the snippet links to exactly the names in the ZIP.
+ */
+export function getOutputFiles(images: ImageFile[], template: string, date: Date = new Date()): Map<string, OutputFile[]> {
+  const usedNames = new Set<string>()
+  const files = new Map<string, OutputFile[]>()
+
+  for (const image of images) {
+    if (image.status !== 'done' || !image.convertedBlob) continue
+
+    const entries: OutputFile[] = image.variants && image.variants.length > 0
+      ? image.variants.map(variant => ({ name: getImageFileName(image, template, variant, date), blob: variant.blob, variant }))
+      : [{ name: getImageFileName(image, template, null, date), blob: image.convertedBlob, variant: null }]
+    files.set(image.id, entries.map(entry => ({ ...entry, name: uniqueFileName(entry.name, usedNames) })))
+  }
+
+  return files
+}
+
+/**
+ * Hex SHA-256 of a blob, for the {hash} token
+ */
+export async function hashContent(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
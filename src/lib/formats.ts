@@ -0,0 +1,99 @@
+export type OutputFormat = 'webp' | 'avif' | 'jpeg' | 'png'
+
+export interface OutputFormatInfo {
+  label: string
+  mimeType: string
+  extension: string
+  supportsQuality: boolean   // false for formats that are always lossless
+  supportsLossless: boolean  // has a separate lossless mode
+  supportsAlpha: boolean     // false means transparency is flattened onto white
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  webp: {
+    label: 'WebP',
+    mimeType: 'image/webp',
+    extension: 'webp',
+    supportsQuality: true,
+    supportsLossless: true,
+    supportsAlpha: true
+  },
+  avif: {
+    label: 'AVIF',
+    mimeType: 'image/avif',
+    extension: 'avif',
+    supportsQuality: true,
+    supportsLossless: false,
+    supportsAlpha: true
+  },
+  jpeg: {
+    label: 'JPEG',
+    mimeType: 'image/jpeg',
+    extension: 'jpg',
+    supportsQuality: true,
+    supportsLossless: false,
+    supportsAlpha: false
+  },
+  png: {
+    label: 'PNG',
+    mimeType: 'image/png',
+    extension: 'png',
+    supportsQuality: false,
+    supportsLossless: false,
+    supportsAlpha: true
+  }
+}
+
+export const OUTPUT_FORMAT_ORDER: OutputFormat[] = ['webp', 'avif', 'jpeg', 'png']
+
+export type WebPEncoder = 'browser' | 'libwebp'
+
+export interface WebPOptions {
+  encoder: WebPEncoder        // 'libwebp' = bundled WASM encoder, identical output in every browser
+  // The fields below are only honoured by the libwebp encoder
+  method: number              // 0 (fastest) - 6 (smallest files)
+  alphaQuality: number        // 0-100
+  nearLossless: number        // 0-100, 100 = off (lossless only)
+  snsStrength: number         // 0-100 spatial noise shaping
+  filterStrength: number      // 0-100 deblocking filter
+  exact: boolean              // keep RGB values under fully transparent pixels
+  sharpYuv: boolean           // sharper (slower) RGB -> YUV conversion
+}
+
+export interface JpegOptions {
+  progressive: boolean
+  chromaSubsampling: boolean  // 4:2:0 when true, full-resolution colour when false
+}
+
+export interface PngOptions {
+  level: number               // oxipng optimisation level 1-6
+  interlace: boolean
+}
+
+export interface FormatOptions {
+  webp: WebPOptions
+  jpeg: JpegOptions
+  png: PngOptions
+}
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = {
+  // Same defaults as cwebp
+  webp: {
+    encoder: 'browser',
+    method: 4,
+    alphaQuality: 100,
+    nearLossless: 100,
+    snsStrength: 50,
+    filterStrength: 60,
+    exact: false,
+    sharpYuv: false
+  },
+  jpeg: {
+    progressive: true,
+    chromaSubsampling: true
+  },
+  png: {
+    level: 2,
+    interlace: false
+  }
+}
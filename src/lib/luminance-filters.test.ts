@@ -0,0 +1,257 @@
+import { describe, expect, it } from 'vitest'
+import { denoiseLuminance, resolveDenoiseParams, sharpenLuminance } from '@/lib/luminance-filters'
+import type { DenoiseParams, SharpenParams } from '@/lib/converter'
+
+/**
+ * The sharpen is checked for parity with the straightforward version it
+ * replaced (on the interior, which the legacy filter skipped) and with a
+ * brute-force mirrored filter at the borders. The denoise is a recursive
+ * approximation, so it is checked against the full bilateral for how much
+ * noise it removes and how closely it follows it, for keeping edges, and
+ * for costing the same at any radius.
+ */
+
+const DEFAULT_DENOISE: DenoiseParams = { radius: null, rangeSigma: null, spatialSigma: 1.2 }
+const DEFAULT_SHARPEN: SharpenParams = { radius: 1, amount: 0.7, threshold: null }
+
+// Larger than one 128-pixel tile in both directions, with partial tiles
+const WIDTH = 300
+const HEIGHT = 200
+
+/**
+ * Gradient with noise, a hard vertical edge and a bright square - enough
+ * to exercise both the smoothing and the edge-preserving paths
+ */
+function createLuminance(width: number, height: number, seed = 1, noiseAmount = 24): Float32Array {
+  const luminance = new Float32Array(width * height)
+  let state = seed
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      state = (state * 1103515245 + 12345) >>> 0
+      const noise = ((state >>> 16) / 65536 - 0.5) * noiseAmount
+      const base = x < width / 2 ? 40 + (y / height) * 60 : 150 + (x / width) * 50
+      const square = x > width * 0.6 && x < width * 0.8 && y > height * 0.2 && y < height * 0.5 ? 60 : 0
+      luminance[y * width + x] = Math.max(0, Math.min(255, base + square + noise))
+    }
+  }
+  return luminance
+}
+
+function reflect(position: number, size: number): number {
+  if (size === 1) return 0
+  const period = 2 * (size - 1)
+  const wrapped = ((position % period) + period) % period
+  return wrapped < size ? wrapped : period - wrapped
+}
+
+/** Sharpen as it was before the rewrite: naive box blur, borders blurred to 0 */
+function legacySharpen(luminance: Float32Array, width: number, height: number, amount: number): Float32Array {
+  const result = new Float32Array(luminance)
+  const strength = (amount / 100) * 0.7
+  const threshold = 3 + (60 - amount) * 0.15
+  const blurred = new Float32Array(luminance.length)
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let sum = 0
+      for (let ky = -1; ky <= 1; ky++) {
+        for (let kx = -1; kx <= 1; kx++) sum += luminance[(y + ky) * width + (x + kx)]
+      }
+      blurred[y * width + x] = sum / 9
+    }
+  }
+
+  for (let i = 0; i < luminance.length; i++) {
+    const diff = luminance[i] - blurred[i]
+    if (Math.abs(diff) > threshold) {
+      const edgeFactor = Math.min(1, (Math.abs(diff) - threshold) / 15)
+      result[i] = Math.max(0, Math.min(255, luminance[i] + diff * strength * edgeFactor))
+    }
+  }
+
+  return result
+}
+
+/** Bilateral filter with exact weights and mirrored edges */
+function mirroredDenoise(
+  luminance: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  sigma: number,
+  spatialSigma: number
+): Float32Array {
+  const result = new Float32Array(luminance.length)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const centerValue = luminance[y * width + x]
+      let sum = 0
+      let weightSum = 0
+      for (let ky = -radius; ky <= radius; ky++) {
+        for (let kx = -radius; kx <= radius; kx++) {
+          const neighborValue = luminance[reflect(y + ky, height) * width + reflect(x + kx, width)]
+          const lumDiff = neighborValue - centerValue
+          const weight = Math.exp(-(kx * kx + ky * ky) / (2 * spatialSigma * spatialSigma)) *
+            Math.exp(-(lumDiff * lumDiff) / (2 * sigma * sigma))
+          sum += neighborValue * weight
+          weightSum += weight
+        }
+      }
+      result[y * width + x] = sum / weightSum
+    }
+  }
+  return result
+}
+
+/** Unsharp mask over a naive mirrored box blur */
+function mirroredSharpen(
+  luminance: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  strength: number,
+  threshold: number
+): Float32Array {
+  const result = new Float32Array(luminance)
+  const area = (radius * 2 + 1) ** 2
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0
+      for (let ky = -radius; ky <= radius; ky++) {
+        for (let kx = -radius; kx <= radius; kx++) {
+          sum += luminance[reflect(y + ky, height) * width + reflect(x + kx, width)]
+        }
+      }
+      const i = y * width + x
+      const diff = luminance[i] - sum / area
+      if (Math.abs(diff) > threshold) {
+        const edgeFactor = Math.min(1, (Math.abs(diff) - threshold) / 15)
+        result[i] = Math.max(0, Math.min(255, luminance[i] + diff * strength * edgeFactor))
+      }
+    }
+  }
+  return result
+}
+
+function rootMeanSquare(a: Float32Array, b: Float32Array): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2
+  return Math.sqrt(sum / a.length)
+}
+
+/**
+ * Best of a few runs, in milliseconds
+ */
+function time(run: () => void): number {
+  let best = Infinity
+  for (let i = 0; i < 3; i++) {
+    const start = performance.now()
+    run()
+    best = Math.min(best, performance.now() - start)
+  }
+  return best
+}
+
+/**
+ * Largest absolute difference, optionally leaving out a border of `inset` pixels
+ */
+function maxDifference(a: Float32Array, b: Float32Array, width: number, height: number, inset = 0): number {
+  let max = 0
+  for (let y = inset; y < height - inset; y++) {
+    for (let x = inset; x < width - inset; x++) {
+      max = Math.max(max, Math.abs(a[y * width + x] - b[y * width + x]))
+    }
+  }
+  return max
+}
+
+describe('denoiseLuminance', () => {
+  const clean = createLuminance(WIDTH, HEIGHT, 1, 0)
+  const noisy = createLuminance(WIDTH, HEIGHT)
+
+  it.each([10, 25, 50, 100])('removes about as much noise as the full bilateral at strength %i', (strength) => {
+    const { radius, rangeSigma, spatialSigma } = resolveDenoiseParams(strength, DEFAULT_DENOISE)
+    const exact = mirroredDenoise(noisy, WIDTH, HEIGHT, radius, rangeSigma, spatialSigma)
+    const actual = denoiseLuminance(noisy, WIDTH, HEIGHT, strength, DEFAULT_DENOISE)
+
+    expect(rootMeanSquare(actual, clean)).toBeLessThan(rootMeanSquare(exact, clean) * 1.15)
+    expect(rootMeanSquare(actual, exact)).toBeLessThan(1.25)
+  })
+
+  it('keeps hard edges', () => {
+    const step = new Float32Array(WIDTH * HEIGHT).map((_, i) => (i % WIDTH < WIDTH / 2 ? 60 : 180))
+    const actual = denoiseLuminance(step, WIDTH, HEIGHT, 100, DEFAULT_DENOISE)
+
+    expect(maxDifference(actual, step, WIDTH, HEIGHT)).toBeLessThan(0.5)
+  })
+
+  it('leaves flat areas alone, borders included', () => {
+    const flat = new Float32Array(WIDTH * HEIGHT).fill(97.25)
+    const actual = denoiseLuminance(flat, WIDTH, HEIGHT, 100, DEFAULT_DENOISE)
+
+    expect(maxDifference(actual, flat, WIDTH, HEIGHT)).toBeLessThan(1e-3)
+  })
+
+  it('handles images smaller than the kernel', () => {
+    for (const [width, height] of [[1, 1], [1, 5], [3, 2]]) {
+      const small = createLuminance(width, height, 3)
+      const actual = denoiseLuminance(small, width, height, 100, DEFAULT_DENOISE)
+
+      expect(actual.every(Number.isFinite)).toBe(true)
+      if (width * height === 1) expect(actual[0]).toBeCloseTo(small[0], 4)
+    }
+  })
+
+  it('leaves the input untouched at strength 0', () => {
+    expect(denoiseLuminance(noisy, WIDTH, HEIGHT, 0, DEFAULT_DENOISE)).toBe(noisy)
+  })
+
+  it('costs a few passes over the image whatever the radius', () => {
+    const width = 1200
+    const height = 800
+    const large = createLuminance(width, height)
+
+    // A plain pass over the same pixels, as a yardstick for this machine
+    const pass = time(() => {
+      const copy = new Float32Array(large.length)
+      for (let i = 0; i < large.length; i++) copy[i] = large[i] * 0.5
+    })
+    const radiusOne = time(() => denoiseLuminance(large, width, height, 50, { ...DEFAULT_DENOISE, radius: 1 }))
+    const radiusFour = time(() => denoiseLuminance(large, width, height, 50, { ...DEFAULT_DENOISE, radius: 4 }))
+
+    // 10-20 passes here; the old 9×9 window took about 150
+    expect(Math.max(radiusOne, radiusFour)).toBeLessThan(pass * 40)
+    expect(Math.max(radiusOne, radiusFour)).toBeLessThan(Math.min(radiusOne, radiusFour) * 2)
+  })
+})
+
+describe('sharpenLuminance', () => {
+  const luminance = createLuminance(WIDTH, HEIGHT)
+
+  it.each([10, 30, 60, 100])('matches the legacy filter inside the border at amount %i', (amount) => {
+    const expected = legacySharpen(luminance, WIDTH, HEIGHT, amount)
+    const actual = sharpenLuminance(luminance, WIDTH, HEIGHT, amount, DEFAULT_SHARPEN)
+
+    expect(maxDifference(actual, expected, WIDTH, HEIGHT, 1)).toBeLessThan(1e-3)
+  })
+
+  it.each([1, 2, 3])('sharpens border pixels as if the image were mirrored at radius %i', (radius) => {
+    const amount = 60
+    const strength = (amount / 100) * 0.7
+    const threshold = 3
+    const expected = mirroredSharpen(luminance, WIDTH, HEIGHT, radius, strength, threshold)
+    const actual = sharpenLuminance(luminance, WIDTH, HEIGHT, amount, { radius, amount: 0.7, threshold })
+
+    expect(maxDifference(actual, expected, WIDTH, HEIGHT)).toBeLessThan(1e-3)
+  })
+
+  it('handles images smaller than the kernel', () => {
+    for (const [width, height] of [[1, 1], [2, 1], [2, 3]]) {
+      const small = createLuminance(width, height, 5)
+      const expected = mirroredSharpen(small, width, height, 3, 0.7, 0)
+      const actual = sharpenLuminance(small, width, height, 100, { radius: 3, amount: 0.7, threshold: 0 })
+
+      expect(maxDifference(actual, expected, width, height)).toBeLessThan(1e-3)
+    }
+  })
+})
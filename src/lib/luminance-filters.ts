@@ -0,0 +1,436 @@
+import type { DenoiseParams, SharpenParams } from '@/lib/converter'
+
+/**
+ * Denoise and sharpen used by the conversion pipeline. The luminance
+ * filters run on BT.601 luma and map the change back onto RGB
+ * proportionally, so colours are preserved. Chroma denoise is the one
+ * stage that touches colour: it smooths Cb/Cr and keeps luma exactly.
+ *
+ * Both filters cost the same at any radius. The sharpen blur is
+ * separable with running sums and treats the image as mirrored beyond its
+ * edges. The denoise is a recursive approximation of the bilateral filter
+ * - four passes over the image instead of a (2·radius+1)² window per
+ * pixel - whose weights simply renormalise at the borders. Range weights
+ * come from lookup tables instead of Math.exp per neighbour.
+ */
+
+// BT.601 coefficients for RGB <-> YCbCr conversion
+const KR = 0.299
+const KG = 0.587
+const KB = 0.114
+
+// Range weights are tabulated in steps of 1/RANGE_LUT_SCALE luma levels
+const RANGE_LUT_SCALE = 16
+
+// Columns the vertical denoise pass works through at once
+const COLUMN_STRIP = 512
+
+// Range weights multiply along the recursion, which narrows the kernel on
+// noisy areas; widening the spatial decay by this much brings the noise
+// removed back to that of the full bilateral
+const RECURSIVE_SPREAD = 1.5
+
+/**
+ * Extracts luminance channel from RGB data
+ * Colors are preserved by only modifying luminance later
+ */
+export function extractLuminance(data: Uint8ClampedArray, width: number, height: number): Float32Array {
+  const luminance = new Float32Array(width * height)
+
+  for (let i = 0; i < width * height; i++) {
+    const idx = i * 4
+    // BT.601 luminance
+    luminance[i] = KR * data[idx] + KG * data[idx + 1] + KB * data[idx + 2]
+  }
+
+  return luminance
+}
+
+/**
+ * Applies luminance changes back to RGB while preserving original colors
+ * This ensures NO color shift - only brightness/contrast changes
+ */
+export function applyLuminanceToRGB(
+  data: Uint8ClampedArray,
+  originalLuminance: Float32Array,
+  newLuminance: Float32Array,
+  width: number,
+  height: number
+): void {
+  for (let i = 0; i < width * height; i++) {
+    const idx = i * 4
+    const oldLum = originalLuminance[i]
+    const newLum = newLuminance[i]
+
+    // Avoid division by zero
+    if (oldLum < 0.001) {
+      // For very dark pixels, just add the luminance difference
+      const diff = newLum - oldLum
+      data[idx] = Math.max(0, Math.min(255, Math.round(data[idx] + diff)))
+      data[idx + 1] = Math.max(0, Math.min(255, Math.round(data[idx + 1] + diff)))
+      data[idx + 2] = Math.max(0, Math.min(255, Math.round(data[idx + 2] + diff)))
+    } else {
+      // Scale RGB proportionally to maintain exact color ratios
+      const scale = newLum / oldLum
+      data[idx] = Math.max(0, Math.min(255, Math.round(data[idx] * scale)))
+      data[idx + 1] = Math.max(0, Math.min(255, Math.round(data[idx + 1] * scale)))
+      data[idx + 2] = Math.max(0, Math.min(255, Math.round(data[idx + 2] * scale)))
+    }
+    // Alpha channel (idx + 3) is never touched
+  }
+}
+
+/**
+ * Index of every position from -radius to size + radius - 1, reflected
+ * back into the image (…2 1 | 0 1 2 … n-1 | n-2 n-3…)
+ */
+function mirrorIndices(size: number, radius: number, stride = 1): Int32Array {
+  const indices = new Int32Array(size + radius * 2)
+  for (let i = 0; i < indices.length; i++) {
+    let position = i - radius
+    // Reflect until inside - only loops more than once for tiny images
+    while (position < 0 || position >= size) {
+      position = position < 0 ? -position : 2 * (size - 1) - position
+      if (size === 1) position = 0
+    }
+    indices[i] = position * stride
+  }
+  return indices
+}
+
+/**
+ * Denoise parameters in effect for a slider value - unset ones follow it
+ */
+export function resolveDenoiseParams(strength: number, params: DenoiseParams): { radius: number; rangeSigma: number; spatialSigma: number } {
+  return {
+    radius: params.radius ?? Math.max(1, Math.ceil(strength / 25)), // 1-4 pixel radius
+    rangeSigma: params.rangeSigma ?? (strength / 100) * 25 + 5,     // Range sigma: 5-30
+    spatialSigma: params.spatialSigma
+  }
+}
+
+/**
+ * Sharpen parameters in effect for a slider value
+ */
+export function resolveSharpenParams(amount: number, params: SharpenParams): { radius: number; strength: number; threshold: number } {
+  return {
+    radius: params.radius,
+    strength: (amount / 100) * params.amount,                 // 0.7 by default to avoid halos
+    threshold: params.threshold ?? 3 + (60 - amount) * 0.15   // Adaptive threshold
+  }
+}
+
+/**
+ * Decay per pixel of a one-sided exponential kernel with the same
+ * variance as the spatial Gaussian cut off at `radius`, widened by
+ * RECURSIVE_SPREAD
+ */
+function recursiveDecay(radius: number, spatialSigma: number): number {
+  let weightSum = 0
+  let varianceSum = 0
+  for (let d = -radius; d <= radius; d++) {
+    const weight = Math.exp(-(d * d) / (2 * spatialSigma * spatialSigma))
+    weightSum += weight
+    varianceSum += weight * d * d
+  }
+  const variance = (varianceSum / weightSum) * RECURSIVE_SPREAD * RECURSIVE_SPREAD
+  // Solves 2a / (1 - a)² = variance
+  return (variance + 1 - Math.sqrt(2 * variance + 1)) / variance
+}
+
+/**
+ * Applies denoise to luminance channel only
+ * Bilateral filter that preserves edges while smoothing noise
+ * Colors remain completely unchanged
+ *
+ * A recursive bilateral (Yang 2012): each pixel's weight for its
+ * neighbour is the range weight of the step between them times a spatial
+ * decay, accumulated left→right and right→left along rows, then
+ * top→bottom and bottom→top down columns. Four passes whatever the radius;
+ * the radius only caps how far the smoothing reaches.
+ */
+export function denoiseLuminance(
+  luminance: Float32Array,
+  width: number,
+  height: number,
+  strength: number,
+  params: DenoiseParams
+): Float32Array {
+  if (strength <= 0) return luminance
+
+  const pixels = width * height
+  const { radius, rangeSigma: sigma, spatialSigma } = resolveDenoiseParams(strength, params)
+  const decay = recursiveDecay(radius, spatialSigma)
+
+  // Decay times range weight per luma step, in 1/RANGE_LUT_SCALE levels
+  const stepWeights = new Float32Array(255 * RANGE_LUT_SCALE + 1)
+  for (let i = 0; i < stepWeights.length; i++) {
+    const lumDiff = i / RANGE_LUT_SCALE
+    stepWeights[i] = decay * Math.exp(-(lumDiff * lumDiff) / (2 * sigma * sigma))
+  }
+
+  // Quantised luma, so a step's weight is one integer subtraction away
+  const levels = new Int16Array(pixels)
+  const horizontal = new Float32Array(pixels)
+
+  // Rows: the left→right sums (and weights) are kept for the way back
+  const forwardSums = new Float32Array(width)
+  const forwardNorms = new Float32Array(width)
+  const rowSteps = new Float32Array(width)
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width
+    let previous = (luminance[row] * RANGE_LUT_SCALE + 0.5) | 0
+    levels[row] = previous
+    let sum = luminance[row]
+    let norm = 1
+    forwardSums[0] = sum
+    forwardNorms[0] = norm
+
+    for (let x = 1; x < width; x++) {
+      const value = luminance[row + x]
+      const level = (value * RANGE_LUT_SCALE + 0.5) | 0
+      const step = level - previous
+      const weight = stepWeights[step < 0 ? -step : step]
+      levels[row + x] = level
+      previous = level
+      rowSteps[x] = weight
+      sum = value + weight * sum
+      norm = 1 + weight * norm
+      forwardSums[x] = sum
+      forwardNorms[x] = norm
+    }
+
+    // Right→left, excluding the pixel itself, which the forward sum holds
+    let backwardSum = 0
+    let backwardNorm = 0
+    for (let x = width - 1; x >= 0; x--) {
+      horizontal[row + x] = (forwardSums[x] + backwardSum) / (forwardNorms[x] + backwardNorm)
+      const weight = rowSteps[x]
+      backwardSum = weight * (luminance[row + x] + backwardSum)
+      backwardNorm = weight * (1 + backwardNorm)
+    }
+  }
+
+  // Columns, a strip at a time so each row of the strip is one cache run
+  const result = new Float32Array(pixels)
+  const stripSums = new Float32Array(COLUMN_STRIP * height)
+  const stripNorms = new Float32Array(COLUMN_STRIP * height)
+  const stripSteps = new Float32Array(COLUMN_STRIP * height)
+  const sums = new Float32Array(COLUMN_STRIP)
+  const norms = new Float32Array(COLUMN_STRIP)
+
+  for (let stripX = 0; stripX < width; stripX += COLUMN_STRIP) {
+    const stripWidth = Math.min(COLUMN_STRIP, width - stripX)
+
+    for (let k = 0; k < stripWidth; k++) {
+      sums[k] = horizontal[stripX + k]
+      norms[k] = 1
+      stripSums[k] = sums[k]
+      stripNorms[k] = 1
+    }
+
+    for (let y = 1; y < height; y++) {
+      const row = y * width + stripX
+      const strip = y * COLUMN_STRIP
+      for (let k = 0; k < stripWidth; k++) {
+        const step = levels[row + k] - levels[row - width + k]
+        const weight = stepWeights[step < 0 ? -step : step]
+        stripSteps[strip + k] = weight
+        sums[k] = horizontal[row + k] + weight * sums[k]
+        norms[k] = 1 + weight * norms[k]
+        stripSums[strip + k] = sums[k]
+        stripNorms[strip + k] = norms[k]
+      }
+    }
+
+    sums.fill(0)
+    norms.fill(0)
+    for (let y = height - 1; y >= 0; y--) {
+      const row = y * width + stripX
+      const strip = y * COLUMN_STRIP
+      for (let k = 0; k < stripWidth; k++) {
+        const backwardSum = sums[k]
+        const backwardNorm = norms[k]
+        result[row + k] = (stripSums[strip + k] + backwardSum) / (stripNorms[strip + k] + backwardNorm)
+        const weight = stripSteps[strip + k]
+        sums[k] = weight * (horizontal[row + k] + backwardSum)
+        norms[k] = weight * (1 + backwardNorm)
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Box blur of (2·radius+1)² pixels as two separable passes with running
+ * sums, so the cost per pixel doesn't grow with the radius
+ */
+function boxBlur(luminance: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const size = radius * 2 + 1
+  const columns = mirrorIndices(width, radius)
+  const rows = mirrorIndices(height, radius, width)
+  const horizontal = new Float32Array(luminance.length)
+  const blurred = new Float32Array(luminance.length)
+
+  // Horizontal: slide the window along each row
+  for (let y = 0; y < height; y++) {
+    const row = y * width
+    let sum = 0
+    for (let k = 0; k < size; k++) sum += luminance[row + columns[k]]
+
+    for (let x = 0; x < width; x++) {
+      horizontal[row + x] = sum
+      if (x + 1 < width) sum += luminance[row + columns[x + size]] - luminance[row + columns[x]]
+    }
+  }
+
+  // Vertical: one running sum per column, moved down a row at a time
+  const area = size * size
+  const sums = new Float64Array(width)
+  for (let k = 0; k < size; k++) {
+    const row = rows[k]
+    for (let x = 0; x < width; x++) sums[x] += horizontal[row + x]
+  }
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width
+    for (let x = 0; x < width; x++) blurred[row + x] = sums[x] / area
+
+    if (y + 1 < height) {
+      const entering = rows[y + size]
+      const leaving = rows[y]
+      for (let x = 0; x < width; x++) sums[x] += horizontal[entering + x] - horizontal[leaving + x]
+    }
+  }
+
+  return blurred
+}
+
+/**
+ * Applies unsharp mask to luminance channel only
+ * With threshold to avoid sharpening noise/flat areas
+ * Colors remain completely unchanged
+ */
+export function sharpenLuminance(
+  luminance: Float32Array,
+  width: number,
+  height: number,
+  amount: number,
+  params: SharpenParams
+): Float32Array {
+  if (amount <= 0) return luminance
+
+  const result = new Float32Array(luminance.length)
+
+  const { radius, strength, threshold } = resolveSharpenParams(amount, params)
+
+  const blurred = boxBlur(luminance, width, height, radius)
+
+  // Apply unsharp mask with threshold
+  for (let i = 0; i < luminance.length; i++) {
+    const value = luminance[i]
+    const diff = value - blurred[i]
+    const magnitude = diff < 0 ? -diff : diff
+
+    // Only sharpen if difference exceeds threshold (real edges)
+    if (magnitude > threshold) {
+      // Smooth transition above threshold
+      const edgeFactor = Math.min(1, (magnitude - threshold) / 15)
+      const sharpened = value + diff * strength * edgeFactor
+      result[i] = sharpened < 0 ? 0 : sharpened > 255 ? 255 : sharpened
+    } else {
+      result[i] = value
+    }
+  }
+
+  return result
+}
+
+/**
+ * Chroma noise reduction: smooths Cb/Cr while keeping each pixel's luma,
+ * so colour speckle goes away without softening detail. The kernel is
+ * a cross bilateral guided by luma and chroma differences, run as a
+ * horizontal and a vertical pass. Works on RGBA data in place.
+ */
+export function denoiseChroma(data: Uint8ClampedArray, width: number, height: number, strength: number): void {
+  if (strength <= 0) return
+
+  const pixels = width * height
+  const luma = new Float32Array(pixels)
+  let cb = new Float32Array(pixels)
+  let cr = new Float32Array(pixels)
+
+  for (let i = 0; i < pixels; i++) {
+    const idx = i * 4
+    const y = KR * data[idx] + KG * data[idx + 1] + KB * data[idx + 2]
+    luma[i] = y
+    cb[i] = (data[idx + 2] - y) / (2 * (1 - KB))
+    cr[i] = (data[idx] - y) / (2 * (1 - KR))
+  }
+
+  // Blotches are several pixels wide, so the radius grows faster than for luma
+  const radius = 1 + Math.round(strength / 20)  // 1-6 pixel radius
+  const sigma = 4 + strength * 0.26              // Range sigma: 4-30
+  const size = radius * 2 + 1
+
+  const rangeWeights = new Float32Array(255 * 3 * RANGE_LUT_SCALE + 2)
+  for (let i = 0; i < rangeWeights.length; i++) {
+    const distance = i / RANGE_LUT_SCALE
+    rangeWeights[i] = Math.exp(-(distance * distance) / (2 * sigma * sigma))
+  }
+
+  const pass = (step: number, indices: Int32Array, lineLength: number, lineStride: number, lines: number) => {
+    const nextCb = new Float32Array(pixels)
+    const nextCr = new Float32Array(pixels)
+
+    for (let line = 0; line < lines; line++) {
+      const base = line * lineStride
+      for (let position = 0; position < lineLength; position++) {
+        const i = base + position * step
+        const centerY = luma[i]
+        const centerCb = cb[i]
+        const centerCr = cr[i]
+
+        let sumCb = 0
+        let sumCr = 0
+        let weightSum = 0
+
+        for (let k = 0; k < size; k++) {
+          const n = base + indices[position + k]
+          const dy = luma[n] - centerY
+          const dcb = cb[n] - centerCb
+          const dcr = cr[n] - centerCr
+          const distance = (dy < 0 ? -dy : dy) + (dcb < 0 ? -dcb : dcb) + (dcr < 0 ? -dcr : dcr)
+          const weight = rangeWeights[(distance * RANGE_LUT_SCALE + 0.5) | 0]
+
+          sumCb += cb[n] * weight
+          sumCr += cr[n] * weight
+          weightSum += weight
+        }
+
+        nextCb[i] = sumCb / weightSum
+        nextCr[i] = sumCr / weightSum
+      }
+    }
+
+    cb = nextCb
+    cr = nextCr
+  }
+
+  pass(1, mirrorIndices(width, radius), width, width, height)
+  pass(width, mirrorIndices(height, radius, width), height, 1, width)
+
+  // Back to RGB with the original luma
+  for (let i = 0; i < pixels; i++) {
+    const idx = i * 4
+    const y = luma[i]
+    const r = y + 2 * (1 - KR) * cr[i]
+    const b = y + 2 * (1 - KB) * cb[i]
+    data[idx] = r
+    data[idx + 1] = (y - KR * r - KB * b) / KG
+    data[idx + 2] = b
+    // Alpha channel (idx + 3) is never touched
+  }
+}
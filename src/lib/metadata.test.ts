@@ -0,0 +1,365 @@
+import { describe, expect, it } from 'vitest'
+import {
+  EMPTY_METADATA,
+  buildCopyrightExif,
+  getFirstIfdOffset,
+  openTiff,
+  readAscii,
+  readIfd,
+  readMetadata,
+  resetOrientation,
+  resetXmpOrientation,
+  scanPrivacy,
+  selectMetadata
+} from '@/lib/metadata'
+import { embedMetadata, writeChunks } from '@/lib/webp-container'
+
+/**
+ * The EXIF fixtures are hand-built TIFF blocks, so every check is against
+ * known byte offsets rather than against whatever a sample photo holds
+ */
+
+const TAG_ORIENTATION = 0x0112
+const TAG_ARTIST = 0x013b
+const TAG_COPYRIGHT = 0x8298
+const TAG_EXIF_IFD = 0x8769
+const TAG_GPS_IFD = 0x8825
+
+type TiffField =
+  | { tag: number; short: number }
+  | { tag: number; ascii: string }
+  | { tag: number; ifd: number }   // LONG pointer to another IFD in the list
+
+interface TiffIfd {
+  fields: TiffField[]
+  next?: number   // index of the IFD chained after this one
+}
+
+/**
+ * TIFF with the given IFDs laid out one after the other, each followed by
+ * its out-of-line ASCII values
+ */
+function createTiff(ifds: TiffIfd[], littleEndian = true): Uint8Array {
+  const encoder = new TextEncoder()
+  const values = ifds.map(ifd => ifd.fields.map(field => ('ascii' in field ? encoder.encode(field.ascii + '\0') : null)))
+  const sizes = ifds.map((ifd, index) =>
+    values[index].reduce((sum, data) => sum + (data && data.length > 4 ? data.length + (data.length & 1) : 0),
+      2 + ifd.fields.length * 12 + 4)
+  )
+  const offsets = sizes.map((_, index) => 8 + sizes.slice(0, index).reduce((sum, size) => sum + size, 0))
+
+  const bytes = new Uint8Array(8 + sizes.reduce((sum, size) => sum + size, 0))
+  const view = new DataView(bytes.buffer)
+  bytes.set(littleEndian ? [0x49, 0x49] : [0x4d, 0x4d], 0)
+  view.setUint16(2, 42, littleEndian)
+  view.setUint32(4, 8, littleEndian)
+
+  ifds.forEach((ifd, index) => {
+    const start = offsets[index]
+    let dataOffset = start + 2 + ifd.fields.length * 12 + 4
+    view.setUint16(start, ifd.fields.length, littleEndian)
+
+    ifd.fields.forEach((field, fieldIndex) => {
+      const entry = start + 2 + fieldIndex * 12
+      const data = values[index][fieldIndex]
+      view.setUint16(entry, field.tag, littleEndian)
+
+      if ('short' in field) {
+        view.setUint16(entry + 2, 3, littleEndian)
+        view.setUint32(entry + 4, 1, littleEndian)
+        view.setUint16(entry + 8, field.short, littleEndian)
+      } else if ('ifd' in field) {
+        view.setUint16(entry + 2, 4, littleEndian)
+        view.setUint32(entry + 4, 1, littleEndian)
+        view.setUint32(entry + 8, offsets[field.ifd], littleEndian)
+      } else if (data) {
+        view.setUint16(entry + 2, 2, littleEndian)
+        view.setUint32(entry + 4, data.length, littleEndian)
+        if (data.length <= 4) {
+          bytes.set(data, entry + 8)
+        } else {
+          view.setUint32(entry + 8, dataOffset, littleEndian)
+          bytes.set(data, dataOffset)
+          dataOffset += data.length + (data.length & 1)
+        }
+      }
+    })
+
+    view.setUint32(start + 2 + ifd.fields.length * 12, ifd.next === undefined ? 0 : offsets[ifd.next], littleEndian)
+  })
+
+  return bytes
+}
+
+/** IFD0 values by tag: numbers for SHORT fields, strings for ASCII ones */
+function readIfd0(exif: Uint8Array): Map<number, number | string> {
+  const reader = openTiff(exif)!
+  return new Map(readIfd(reader, getFirstIfdOffset(reader)).entries.map(entry => [
+    entry.tag,
+    entry.type === 2 ? readAscii(reader, entry) : reader.view.getUint16(entry.valueOffset, reader.littleEndian)
+  ]))
+}
+
+function concat(...parts: (Uint8Array | number[])[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    bytes.set(part, offset)
+    offset += part.length
+  }
+  return bytes
+}
+
+function ascii(text: string): Uint8Array {
+  return new TextEncoder().encode(text)
+}
+
+/** JPEG marker segment; the length counts itself but not the marker */
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  const length = payload.length + 2
+  return concat([0xff, marker, length >> 8, length & 0xff], payload)
+}
+
+const ROTATED_EXIF = createTiff([{
+  fields: [
+    { tag: TAG_ORIENTATION, short: 6 },
+    { tag: TAG_ARTIST, ascii: 'Ann Example' }
+  ]
+}])
+
+describe('resetOrientation', () => {
+  it.each([true, false])('resets the orientation to 1 (little endian: %s)', (littleEndian) => {
+    const exif = createTiff([{ fields: [{ tag: TAG_ORIENTATION, short: 8 }, { tag: TAG_ARTIST, ascii: 'Ann' }] }], littleEndian)
+    const reset = resetOrientation(exif)
+
+    expect(readIfd0(reset)).toEqual(new Map<number, number | string>([[TAG_ORIENTATION, 1], [TAG_ARTIST, 'Ann']]))
+    expect(reset.length).toBe(exif.length)
+  })
+
+  it('leaves the source block untouched', () => {
+    const copy = ROTATED_EXIF.slice()
+    resetOrientation(ROTATED_EXIF)
+
+    expect(ROTATED_EXIF).toEqual(copy)
+  })
+
+  it('copies blocks without an orientation unchanged', () => {
+    const exif = createTiff([{ fields: [{ tag: TAG_ARTIST, ascii: 'Ann' }] }])
+
+    expect(resetOrientation(exif)).toEqual(exif)
+    expect(resetOrientation(ascii('not a tiff'))).toEqual(ascii('not a tiff'))
+  })
+})
+
+describe('resetXmpOrientation', () => {
+  it('resets tiff:Orientation written as an attribute', () => {
+    const xmp = ascii('<rdf:Description tiff:Orientation="6" tiff:Make="X"/>')
+
+    expect(new TextDecoder().decode(resetXmpOrientation(xmp))).toBe('<rdf:Description tiff:Orientation="1" tiff:Make="X"/>')
+  })
+
+  it('resets tiff:Orientation written as an element', () => {
+    const xmp = ascii('<tiff:Orientation> 8 </tiff:Orientation>')
+
+    expect(new TextDecoder().decode(resetXmpOrientation(xmp))).toBe('<tiff:Orientation>1</tiff:Orientation>')
+  })
+
+  it('returns packets without an orientation as they are', () => {
+    const xmp = ascii('<rdf:Description tiff:Make="X"/>')
+
+    expect(resetXmpOrientation(xmp)).toBe(xmp)
+  })
+})
+
+describe('readMetadata', () => {
+  const icc = ascii('ICC profile bytes')
+  const xmp = ascii('<x:xmpmeta/>')
+
+  it('reads EXIF, XMP and a split ICC profile from a JPEG', async () => {
+    // Second ICC part first: parts are put back in sequence order
+    const jpeg = concat(
+      [0xff, 0xd8],
+      jpegSegment(0xe1, concat(ascii('Exif\0\0'), ROTATED_EXIF)),
+      jpegSegment(0xe1, concat(ascii('http://ns.adobe.com/xap/1.0/\0'), xmp)),
+      jpegSegment(0xe2, concat(ascii('ICC_PROFILE\0'), [2, 2], icc.subarray(5))),
+      jpegSegment(0xe2, concat(ascii('ICC_PROFILE\0'), [1, 2], icc.subarray(0, 5))),
+      [0xff, 0xda, 0x00, 0x02]
+    )
+    const metadata = await readMetadata(jpeg)
+
+    expect(metadata.exif).toEqual(ROTATED_EXIF)
+    expect(metadata.xmp).toEqual(xmp)
+    expect(metadata.icc).toEqual(icc)
+  })
+
+  it('drops an ICC profile with a missing part', async () => {
+    const jpeg = concat(
+      [0xff, 0xd8],
+      jpegSegment(0xe2, concat(ascii('ICC_PROFILE\0'), [2, 2], icc)),
+      [0xff, 0xda, 0x00, 0x02]
+    )
+
+    expect((await readMetadata(jpeg)).icc).toBeNull()
+  })
+
+  it('reads back what embedMetadata wrote to a WebP', async () => {
+    const still = writeChunks([{ fourcc: 'VP8L', data: new Uint8Array([0x2f, 0, 0, 0, 0]) }])
+    const webp = embedMetadata(still, { exif: ROTATED_EXIF, icc, xmp })
+
+    expect(await readMetadata(webp)).toEqual({ exif: ROTATED_EXIF, icc, xmp })
+  })
+
+  it('strips a JPEG-style header from a WebP EXIF chunk', async () => {
+    const webp = writeChunks([
+      { fourcc: 'VP8L', data: new Uint8Array([0x2f, 0, 0, 0, 0]) },
+      { fourcc: 'EXIF', data: concat(ascii('Exif\0\0'), ROTATED_EXIF) }
+    ])
+
+    expect((await readMetadata(webp)).exif).toEqual(ROTATED_EXIF)
+  })
+
+  it('yields no metadata for other formats and damaged files', async () => {
+    const truncatedWebP = writeChunks([{ fourcc: 'EXIF', data: new Uint8Array(8) }]).subarray(0, 20)
+
+    expect(await readMetadata(ascii('GIF89a'))).toEqual(EMPTY_METADATA)
+    expect(await readMetadata(truncatedWebP)).toEqual(EMPTY_METADATA)
+  })
+})
+
+describe('selectMetadata', () => {
+  const metadata = {
+    exif: ROTATED_EXIF,
+    icc: ascii('ICC'),
+    xmp: ascii('<tiff:Orientation>6</tiff:Orientation>')
+  }
+
+  it('keeps EXIF and XMP with the orientation reset, but not the ICC profile', () => {
+    const selected = selectMetadata(metadata, 'keepAll')
+
+    expect(readIfd0(selected.exif!).get(TAG_ORIENTATION)).toBe(1)
+    expect(readIfd0(selected.exif!).get(TAG_ARTIST)).toBe('Ann Example')
+    expect(new TextDecoder().decode(selected.xmp!)).toBe('<tiff:Orientation>1</tiff:Orientation>')
+    expect(selected.icc).toBeNull()
+  })
+
+  it('keeps only the Artist and Copyright fields for copyrightOnly', () => {
+    const selected = selectMetadata(metadata, 'copyrightOnly')
+
+    expect(readIfd0(selected.exif!)).toEqual(new Map([[TAG_ARTIST, 'Ann Example']]))
+    expect(selected.xmp).toBeNull()
+  })
+
+  it('keeps nothing for strip', () => {
+    expect(selectMetadata(metadata, 'strip')).toEqual(EMPTY_METADATA)
+  })
+})
+
+/**
+ * EXIF with every privacy finding: a GPS IFD, owner and body serial in the
+ * Exif IFD and an IFD1 thumbnail, next to the copyright fields
+ */
+const SENSITIVE_EXIF = createTiff([
+  {
+    fields: [
+      { tag: TAG_ORIENTATION, short: 6 },
+      { tag: TAG_ARTIST, ascii: 'Ann Example' },
+      { tag: TAG_COPYRIGHT, ascii: '(c) 2026 Ann' },
+      { tag: TAG_EXIF_IFD, ifd: 1 },
+      { tag: TAG_GPS_IFD, ifd: 2 }
+    ],
+    next: 3
+  },
+  { fields: [{ tag: 0xa430, ascii: 'Ann' }, { tag: 0xa431, ascii: 'SN12345' }] },
+  { fields: [{ tag: 0x0001, ascii: 'N' }] },
+  { fields: [{ tag: 0x0201, short: 512 }] }
+])
+
+describe('scanPrivacy', () => {
+  it('finds GPS, serial numbers, the owner and a thumbnail in EXIF, in display order', () => {
+    expect(scanPrivacy({ ...EMPTY_METADATA, exif: SENSITIVE_EXIF })).toEqual(['gps', 'serialNumber', 'ownerName', 'thumbnail'])
+  })
+
+  it('reads big-endian EXIF too', () => {
+    const exif = createTiff([{ fields: [{ tag: TAG_GPS_IFD, ifd: 1 }] }, { fields: [{ tag: 0x0002, short: 1 }] }], false)
+
+    expect(scanPrivacy({ ...EMPTY_METADATA, exif })).toEqual(['gps'])
+  })
+
+  it('ignores an empty GPS IFD', () => {
+    const exif = createTiff([{ fields: [{ tag: TAG_GPS_IFD, ifd: 1 }] }, { fields: [] }])
+
+    expect(scanPrivacy({ ...EMPTY_METADATA, exif })).toEqual([])
+  })
+
+  it('finds a DNG camera serial in IFD0', () => {
+    const exif = createTiff([{ fields: [{ tag: 0xc62f, ascii: 'SN1' }] }])
+
+    expect(scanPrivacy({ ...EMPTY_METADATA, exif })).toEqual(['serialNumber'])
+  })
+
+  it('finds the same information in XMP', () => {
+    const xmp = ascii([
+      '<rdf:Description exif:GPSLatitude="52,31.2N" aux:SerialNumber="SN1"',
+      ' exifEX:CameraOwnerName="Ann"><xmp:Thumbnails/></rdf:Description>'
+    ].join(''))
+
+    expect(scanPrivacy({ ...EMPTY_METADATA, xmp })).toEqual(['gps', 'serialNumber', 'ownerName', 'thumbnail'])
+  })
+
+  it('finds nothing in harmless metadata', () => {
+    expect(scanPrivacy({ exif: ROTATED_EXIF, icc: ascii('ICC'), xmp: ascii('<tiff:Orientation>6</tiff:Orientation>') })).toEqual([])
+  })
+})
+
+describe('buildCopyrightExif', () => {
+  it('writes a little-endian TIFF with only Artist and Copyright, sorted by tag', () => {
+    const exif = buildCopyrightExif(SENSITIVE_EXIF)!
+    const view = new DataView(exif.buffer, exif.byteOffset, exif.byteLength)
+
+    expect([...exif.subarray(0, 4)]).toEqual([0x49, 0x49, 42, 0])
+    expect(view.getUint32(4, true)).toBe(8)
+    expect(view.getUint16(8, true)).toBe(2)
+    expect(view.getUint16(10, true)).toBe(TAG_ARTIST)
+    expect(view.getUint16(22, true)).toBe(TAG_COPYRIGHT)
+    // No next IFD, so no thumbnail
+    expect(view.getUint32(34, true)).toBe(0)
+    // Header + IFD (2 + 2 * 12 + 4) + 'Ann Example\0' (12) + '(c) 2026 Ann\0' (13 + 1 pad)
+    expect(exif.length).toBe(8 + 30 + 12 + 14)
+    expect(exif[exif.length - 1]).toBe(0)
+    expect(readIfd0(exif)).toEqual(new Map([[TAG_ARTIST, 'Ann Example'], [TAG_COPYRIGHT, '(c) 2026 Ann']]))
+  })
+
+  it('stores values of up to four bytes inline', () => {
+    const exif = buildCopyrightExif(createTiff([{ fields: [{ tag: TAG_COPYRIGHT, ascii: 'Ann' }] }]))!
+
+    expect(exif.length).toBe(8 + 18)
+    expect([...exif.subarray(18, 22)]).toEqual([...ascii('Ann\0')])
+  })
+
+  it('returns null without copyright fields', () => {
+    expect(buildCopyrightExif(null)).toBeNull()
+    expect(buildCopyrightExif(ascii('not a tiff'))).toBeNull()
+    expect(buildCopyrightExif(createTiff([{ fields: [{ tag: TAG_ORIENTATION, short: 1 }] }]))).toBeNull()
+    expect(buildCopyrightExif(createTiff([{ fields: [{ tag: TAG_ARTIST, ascii: '  ' }] }]))).toBeNull()
+  })
+})
+
+describe('selectMetadata in privacy mode', () => {
+  const metadata = {
+    exif: SENSITIVE_EXIF,
+    icc: ascii('ICC'),
+    xmp: ascii('<rdf:Description exif:GPSLatitude="52,31.2N"/>')
+  }
+
+  it.each(['keepAll', 'copyrightOnly'] as const)('keeps only the rebuilt copyright EXIF for %s', (mode) => {
+    const selected = selectMetadata(metadata, mode, true)
+
+    expect(selected.exif).toEqual(buildCopyrightExif(SENSITIVE_EXIF))
+    expect(selected.xmp).toBeNull()
+    expect(scanPrivacy(selected)).toEqual([])
+  })
+
+  it('keeps nothing for strip', () => {
+    expect(selectMetadata(metadata, 'strip', true)).toEqual(EMPTY_METADATA)
+  })
+})
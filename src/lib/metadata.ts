@@ -0,0 +1,445 @@
+import { readChunks } from '@/lib/webp-container'
+import type { MetadataMode } from '@/lib/converter'
+
+/**
+ * EXIF, ICC and XMP extraction from JPEG, PNG and WebP sources, plus the
+ * few TIFF edits the converter needs (orientation, copyright-only EXIF).
+ *
+ * EXIF is always kept as a bare TIFF structure ('II*\0' / 'MM\0*'), which
+ * is exactly what the WebP EXIF chunk expects.
+ */
+
+export interface ImageMetadata {
+  exif: Uint8Array | null
+  icc: Uint8Array | null
+  xmp: Uint8Array | null
+}
+
+export const EMPTY_METADATA: ImageMetadata = {
+  exif: null,
+  icc: null,
+  xmp: null
+}
+
+/** Sensitive metadata privacy mode looks for */
+export type PrivacyFinding = 'gps' | 'serialNumber' | 'ownerName' | 'thumbnail'
+
+export const PRIVACY_FINDING_ORDER: PrivacyFinding[] = ['gps', 'serialNumber', 'ownerName', 'thumbnail']
+
+const EXIF_HEADER = 'Exif\0\0'
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0'
+const ICC_HEADER = 'ICC_PROFILE\0'
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp'
+
+// TIFF tags
+const TAG_ORIENTATION = 0x0112
+const TAG_ARTIST = 0x013b
+const TAG_COPYRIGHT = 0x8298
+const TAG_EXIF_IFD = 0x8769
+const TAG_GPS_IFD = 0x8825
+const TAG_THUMBNAIL_OFFSET = 0x0201
+const TAG_CAMERA_SERIAL = 0xc62f   // DNG, in IFD0
+const TAG_OWNER_NAME = 0xa430
+const TAG_BODY_SERIAL = 0xa431
+const TAG_LENS_SERIAL = 0xa435
+
+// XMP properties that carry the same information
+const XMP_PATTERNS: [PrivacyFinding, RegExp][] = [
+  ['gps', /exif:GPS(Latitude|Longitude|Altitude)/],
+  ['serialNumber', /(aux|exifEX):(Lens)?SerialNumber|exifEX:BodySerialNumber/],
+  ['ownerName', /(aux|exifEX):OwnerName|exifEX:CameraOwnerName/],
+  ['thumbnail', /xmpGImg:image|xmp:Thumbnails/]
+]
+
+// tiff:Orientation as an attribute or as an element
+const XMP_ORIENTATION = /(tiff:Orientation\s*=\s*["'])\d+(["'])|(<tiff:Orientation>)\s*\d+\s*(<\/tiff:Orientation>)/g
+
+// TIFF field types that matter here
+const TYPE_ASCII = 2
+const TYPE_SHORT = 3
+const TYPE_LONG = 4
+
+// Bytes per value for TIFF field types 1-12
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8
+}
+
+function startsWith(bytes: Uint8Array, text: string, offset = 0): boolean {
+  if (bytes.length < offset + text.length) return false
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false
+  }
+  return true
+}
+
+function indexOfZero(bytes: Uint8Array, from = 0): number {
+  const index = bytes.indexOf(0, from)
+  return index === -1 ? bytes.length : index
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array | null> {
+  try {
+    const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  } catch {
+    return null
+  }
+}
+
+export interface TiffEntry {
+  tag: number
+  type: number
+  count: number
+  entryOffset: number   // offset of the 12-byte IFD entry
+  valueOffset: number   // offset of the value (inline or pointed to)
+}
+
+export interface TiffReader {
+  bytes: Uint8Array
+  view: DataView
+  littleEndian: boolean
+}
+
+export function openTiff(bytes: Uint8Array): TiffReader | null {
+  if (bytes.length < 8) return null
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  let littleEndian: boolean
+  if (bytes[0] === 0x49 && bytes[1] === 0x49) littleEndian = true
+  else if (bytes[0] === 0x4d && bytes[1] === 0x4d) littleEndian = false
+  else return null
+
+  if (view.getUint16(2, littleEndian) !== 42) return null
+  return { bytes, view, littleEndian }
+}
+
+export function getFirstIfdOffset(reader: TiffReader): number {
+  return reader.view.getUint32(4, reader.littleEndian)
+}
+
+/**
+ * Reads one IFD. Entries pointing outside the buffer are skipped.
+ */
+export function readIfd(reader: TiffReader, offset: number): { entries: TiffEntry[]; next: number } {
+  const { view, littleEndian, bytes } = reader
+  if (offset <= 0 || offset + 2 > bytes.length) return { entries: [], next: 0 }
+
+  const count = view.getUint16(offset, littleEndian)
+  const entries: TiffEntry[] = []
+
+  for (let i = 0; i < count; i++) {
+    const entryOffset = offset + 2 + i * 12
+    if (entryOffset + 12 > bytes.length) break
+
+    const tag = view.getUint16(entryOffset, littleEndian)
+    const type = view.getUint16(entryOffset + 2, littleEndian)
+    const valueCount = view.getUint32(entryOffset + 4, littleEndian)
+    const size = (TYPE_SIZES[type] ?? 1) * valueCount
+    const valueOffset = size <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, littleEndian)
+    if (valueOffset + size > bytes.length) continue
+
+    entries.push({ tag, type, count: valueCount, entryOffset, valueOffset })
+  }
+
+  const nextPosition = offset + 2 + count * 12
+  const next = nextPosition + 4 <= bytes.length ? view.getUint32(nextPosition, littleEndian) : 0
+  return { entries, next }
+}
+
+export function readAscii(reader: TiffReader, entry: TiffEntry): string {
+  const data = reader.bytes.subarray(entry.valueOffset, entry.valueOffset + entry.count)
+  return new TextDecoder().decode(data.subarray(0, indexOfZero(data))).trim()
+}
+
+function findIfd0Entry(exif: Uint8Array, tag: number): { reader: TiffReader; entry: TiffEntry } | null {
+  const reader = openTiff(exif)
+  if (!reader) return null
+  const entry = readIfd(reader, getFirstIfdOffset(reader)).entries.find(e => e.tag === tag)
+  return entry ? { reader, entry } : null
+}
+
+/**
+ * Copy of the EXIF block with the orientation tag reset to 1, for pixels
+ * that have already been rotated
+ */
+export function resetOrientation(exif: Uint8Array): Uint8Array {
+  const copy = exif.slice()
+  const found = findIfd0Entry(copy, TAG_ORIENTATION)
+  if (found && found.entry.type === TYPE_SHORT) {
+    found.reader.view.setUint16(found.entry.valueOffset, 1, found.reader.littleEndian)
+  }
+  return copy
+}
+
+/**
+ * Copy of an XMP packet with tiff:Orientation reset to 1, the XMP
+ * counterpart of resetOrientation
+ */
+export function resetXmpOrientation(xmp: Uint8Array): Uint8Array {
+  const text = new TextDecoder().decode(xmp)
+  const reset = text.replace(XMP_ORIENTATION, (_match, attrOpen, attrClose, elementOpen, elementClose) =>
+    attrOpen ? `${attrOpen}1${attrClose}` : `${elementOpen}1${elementClose}`
+  )
+  return reset === text ? xmp : new TextEncoder().encode(reset)
+}
+
+/**
+ * Little-endian TIFF with a single IFD of ASCII fields
+ */
+function writeAsciiTiff(fields: { tag: number; value: string }[]): Uint8Array {
+  const sorted = [...fields].sort((a, b) => a.tag - b.tag)
+  const encoded = sorted.map(field => new TextEncoder().encode(field.value + '\0'))
+  const ifdSize = 2 + sorted.length * 12 + 4
+  const dataSize = encoded.reduce((sum, data) => sum + (data.length > 4 ? data.length + (data.length & 1) : 0), 0)
+
+  const bytes = new Uint8Array(8 + ifdSize + dataSize)
+  const view = new DataView(bytes.buffer)
+  bytes.set([0x49, 0x49], 0)
+  view.setUint16(2, 42, true)
+  view.setUint32(4, 8, true)
+  view.setUint16(8, sorted.length, true)
+
+  let dataOffset = 8 + ifdSize
+  sorted.forEach((field, index) => {
+    const entry = 10 + index * 12
+    const data = encoded[index]
+    view.setUint16(entry, field.tag, true)
+    view.setUint16(entry + 2, TYPE_ASCII, true)
+    view.setUint32(entry + 4, data.length, true)
+
+    if (data.length <= 4) {
+      bytes.set(data, entry + 8)
+    } else {
+      view.setUint32(entry + 8, dataOffset, true)
+      bytes.set(data, dataOffset)
+      dataOffset += data.length + (data.length & 1)
+    }
+  })
+  // Next IFD offset stays 0
+
+  return bytes
+}
+
+function readPointer(reader: TiffReader, entry: TiffEntry | undefined): number {
+  if (!entry || entry.type !== TYPE_LONG) return 0
+  return reader.view.getUint32(entry.valueOffset, reader.littleEndian)
+}
+
+/**
+ * Sensitive fields in an EXIF block: a GPS IFD with entries, serial
+ * numbers, camera owner and an embedded thumbnail (IFD1)
+ */
+function scanExif(exif: Uint8Array): Set<PrivacyFinding> {
+  const found = new Set<PrivacyFinding>()
+  const reader = openTiff(exif)
+  if (!reader) return found
+
+  const ifd0 = readIfd(reader, getFirstIfdOffset(reader))
+  const byTag = (entries: TiffEntry[], tag: number) => entries.find(entry => entry.tag === tag)
+
+  if (readIfd(reader, readPointer(reader, byTag(ifd0.entries, TAG_GPS_IFD))).entries.length > 0) {
+    found.add('gps')
+  }
+  if (byTag(ifd0.entries, TAG_CAMERA_SERIAL)) {
+    found.add('serialNumber')
+  }
+
+  const exifIfd = readIfd(reader, readPointer(reader, byTag(ifd0.entries, TAG_EXIF_IFD))).entries
+  if (byTag(exifIfd, TAG_BODY_SERIAL) || byTag(exifIfd, TAG_LENS_SERIAL)) {
+    found.add('serialNumber')
+  }
+  if (byTag(exifIfd, TAG_OWNER_NAME)) {
+    found.add('ownerName')
+  }
+
+  if (ifd0.next > 0 && byTag(readIfd(reader, ifd0.next).entries, TAG_THUMBNAIL_OFFSET)) {
+    found.add('thumbnail')
+  }
+
+  return found
+}
+
+/**
+ * Everything privacy mode cares about in EXIF and XMP, in display order
+ */
+export function scanPrivacy(metadata: ImageMetadata): PrivacyFinding[] {
+  const found = metadata.exif ? scanExif(metadata.exif) : new Set<PrivacyFinding>()
+
+  if (metadata.xmp) {
+    const xmp = new TextDecoder().decode(metadata.xmp)
+    for (const [finding, pattern] of XMP_PATTERNS) {
+      if (pattern.test(xmp)) found.add(finding)
+    }
+  }
+
+  return PRIVACY_FINDING_ORDER.filter(finding => found.has(finding))
+}
+
+/**
+ * New EXIF block holding only the Artist and Copyright fields, or null
+ * when the source has neither
+ */
+export function buildCopyrightExif(exif: Uint8Array | null): Uint8Array | null {
+  const reader = exif && openTiff(exif)
+  if (!reader) return null
+
+  const fields = readIfd(reader, getFirstIfdOffset(reader)).entries
+    .filter(entry => (entry.tag === TAG_ARTIST || entry.tag === TAG_COPYRIGHT) && entry.type === TYPE_ASCII)
+    .map(entry => ({ tag: entry.tag, value: readAscii(reader, entry) }))
+    .filter(field => field.value.length > 0)
+
+  return fields.length > 0 ? writeAsciiTiff(fields) : null
+}
+
+function readJpegMetadata(bytes: Uint8Array): ImageMetadata {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const metadata: ImageMetadata = { ...EMPTY_METADATA }
+  const iccParts: Uint8Array[] = []
+  let offset = 2
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break
+    const marker = bytes[offset + 1]
+
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2
+      continue
+    }
+    // Start of scan: no metadata after this point
+    if (marker === 0xda || marker === 0xd9) break
+
+    const length = view.getUint16(offset + 2)
+    const data = bytes.subarray(offset + 4, Math.min(bytes.length, offset + 2 + length))
+
+    if (marker === 0xe1 && startsWith(data, EXIF_HEADER)) {
+      metadata.exif ??= data.subarray(EXIF_HEADER.length)
+    } else if (marker === 0xe1 && startsWith(data, XMP_NAMESPACE)) {
+      metadata.xmp ??= data.subarray(XMP_NAMESPACE.length)
+    } else if (marker === 0xe2 && startsWith(data, ICC_HEADER)) {
+      // Profiles over 64 KB are split: 1-based sequence number, then total
+      iccParts[data[ICC_HEADER.length] - 1] = data.subarray(ICC_HEADER.length + 2)
+    }
+
+    offset += 2 + length
+  }
+
+  if (iccParts.length > 0 && iccParts.every(Boolean)) {
+    const size = iccParts.reduce((sum, part) => sum + part.length, 0)
+    const icc = new Uint8Array(size)
+    let position = 0
+    for (const part of iccParts) {
+      icc.set(part, position)
+      position += part.length
+    }
+    metadata.icc = icc
+  }
+
+  return metadata
+}
+
+async function readPngMetadata(bytes: Uint8Array): Promise<ImageMetadata> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const metadata: ImageMetadata = { ...EMPTY_METADATA }
+  let offset = 8
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+    const data = bytes.subarray(offset + 8, Math.min(bytes.length, offset + 8 + length))
+
+    if (type === 'eXIf') {
+      metadata.exif = data
+    } else if (type === 'iCCP') {
+      // Profile name, null, compression method (always zlib), profile
+      metadata.icc = await inflate(data.subarray(indexOfZero(data) + 2))
+    } else if (type === 'iTXt' && startsWith(data, PNG_XMP_KEYWORD + '\0')) {
+      // Keyword, null, compression flag + method, language, null, translated keyword, null, text
+      let position = PNG_XMP_KEYWORD.length + 1
+      const compressed = data[position] === 1
+      position = indexOfZero(data, position + 2) + 1
+      position = indexOfZero(data, position) + 1
+      const text = data.subarray(position)
+      metadata.xmp = compressed ? await inflate(text) : text
+    } else if (type === 'IEND') {
+      break
+    }
+
+    offset += 12 + length
+  }
+
+  return metadata
+}
+
+function readWebPMetadata(bytes: Uint8Array): ImageMetadata {
+  const metadata: ImageMetadata = { ...EMPTY_METADATA }
+
+  for (const chunk of readChunks(bytes)) {
+    if (chunk.fourcc === 'EXIF') {
+      // Some writers keep the JPEG-style header
+      metadata.exif = startsWith(chunk.data, EXIF_HEADER) ? chunk.data.subarray(EXIF_HEADER.length) : chunk.data
+    } else if (chunk.fourcc === 'ICCP') {
+      metadata.icc = chunk.data
+    } else if (chunk.fourcc === 'XMP ') {
+      metadata.xmp = chunk.data
+    }
+  }
+
+  return metadata
+}
+
+/**
+ * Reads EXIF, ICC and XMP from a JPEG, PNG or WebP file.
+ * Other formats (and damaged files) yield no metadata.
+ */
+export async function readMetadata(bytes: Uint8Array): Promise<ImageMetadata> {
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return readJpegMetadata(bytes)
+    }
+    if (bytes[0] === 0x89 && startsWith(bytes, 'PNG', 1)) {
+      return await readPngMetadata(bytes)
+    }
+    if (startsWith(bytes, 'RIFF') && startsWith(bytes, 'WEBP', 8)) {
+      return readWebPMetadata(bytes)
+    }
+  } catch {
+    // Unreadable metadata never fails the conversion
+  }
+  return { ...EMPTY_METADATA }
+}
+
+/**
+ * EXIF and XMP to write into the output for the chosen mode. Orientation
+ * is always reset because the pixels are rotated when decoding. The
+ * ICC profile is left to colour management and always comes back null.
+ *
+ * Privacy mode never copies EXIF or XMP wholesale: at most the rebuilt
+ * Artist/Copyright EXIF survives, which cannot hold any PrivacyFinding.
+ */
+export function selectMetadata(metadata: ImageMetadata, mode: MetadataMode, privacy = false): ImageMetadata {
+  if (privacy && mode !== 'strip') {
+    return {
+      exif: buildCopyrightExif(metadata.exif),
+      icc: null,
+      xmp: null
+    }
+  }
+
+  switch (mode) {
+    case 'keepAll':
+      return {
+        exif: metadata.exif && resetOrientation(metadata.exif),
+        icc: null,
+        xmp: metadata.xmp && resetXmpOrientation(metadata.xmp)
+      }
+    case 'copyrightOnly':
+      return { ...EMPTY_METADATA, exif: buildCopyrightExif(metadata.exif) }
+    default:
+      return { ...EMPTY_METADATA }
+  }
+}
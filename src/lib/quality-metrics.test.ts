@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_PSNR, compareToReference, measureQuality, prepareReference } from '@/lib/quality-metrics'
+import { OPAQUE_BACKGROUND } from '@/lib/encoders'
+import { DEFAULT_PERCEPTUAL_TARGET } from '@/lib/converter'
+
+const SIZE = 64
+
+function createImageData(width: number, height: number, fill: (x: number, y: number) => [number, number, number, number]): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(fill(x, y), (y * width + x) * 4)
+    }
+  }
+  return { data, width, height, colorSpace: 'srgb' }
+}
+
+/**
+ * A logo-like source: textured opaque content on the right, a soft edge,
+ * and fully transparent (black RGB, as the converter cleans it) on the left
+ */
+function createTransparentSource(): ImageData {
+  return createImageData(SIZE, SIZE, (x, y) => {
+    const alpha = x < 24 ? 0 : x < 32 ? (x - 24) * 32 : 255
+    const value = 60 + ((x * 7 + y * 13) % 50) + (y % 8 < 4 ? 40 : 0)
+    return alpha === 0 ? [0, 0, 0, 0] : [value, value * 0.8, 255 - value, alpha]
+  })
+}
+
+/**
+ * What a JPEG encode-and-decode of it looks like: flattened onto the
+ * encoder's background, opaque, with a little quantisation noise
+ */
+function simulateJpeg(source: ImageData, noise: number): ImageData {
+  const [backgroundR, backgroundG, backgroundB] = OPAQUE_BACKGROUND
+  let state = 1
+  return createImageData(source.width, source.height, (x, y) => {
+    const i = (y * source.width + x) * 4
+    const alpha = source.data[i + 3] / 255
+    state = (state * 1103515245 + 12345) >>> 0
+    const offset = ((state >>> 16) % (noise * 2 + 1)) - noise
+    return [
+      source.data[i] * alpha + backgroundR * (1 - alpha) + offset,
+      source.data[i + 1] * alpha + backgroundG * (1 - alpha) + offset,
+      source.data[i + 2] * alpha + backgroundB * (1 - alpha) + offset,
+      255
+    ]
+  })
+}
+
+describe('quality metrics', () => {
+  it('scores identical images as perfect', () => {
+    const source = createTransparentSource()
+    const metrics = measureQuality(source, source)
+
+    expect(metrics.ssim).toBeCloseTo(1, 6)
+    expect(metrics.msSsim).toBeCloseTo(1, 6)
+    expect(metrics.psnr).toBe(MAX_PSNR)
+  })
+
+  it('ignores what an encoder leaves under fully transparent pixels', () => {
+    const source = createTransparentSource()
+    const garbage = createImageData(SIZE, SIZE, (x, y) => {
+      const i = (y * SIZE + x) * 4
+      return source.data[i + 3] === 0 ? [200, 10, 90, 0] : [source.data[i], source.data[i + 1], source.data[i + 2], source.data[i + 3]]
+    })
+
+    expect(measureQuality(source, garbage).psnr).toBe(MAX_PSNR)
+  })
+
+  it('scores a JPEG of a transparent source against the background it was flattened onto', () => {
+    const source = createTransparentSource()
+    const jpeg = simulateJpeg(source, 1)
+
+    const flattened = measureQuality(source, jpeg, OPAQUE_BACKGROUND)
+    expect(flattened.ssim).toBeGreaterThan(0.99)
+    expect(flattened.psnr).toBeGreaterThan(40)
+
+    // Against the default black the flattening itself reads as heavy loss
+    expect(measureQuality(source, jpeg).ssim).toBeLessThan(DEFAULT_PERCEPTUAL_TARGET.target)
+  })
+
+  it('lets a perceptual search on a transparent JPEG reach its target and still tell qualities apart', () => {
+    const source = createTransparentSource()
+    const reference = prepareReference(source, OPAQUE_BACKGROUND)
+
+    // Stand-ins for decreasing encode quality
+    const scores = [1, 4, 12, 40].map(noise => compareToReference(reference, simulateJpeg(source, noise)).ssim)
+
+    expect(scores[0]).toBeGreaterThanOrEqual(DEFAULT_PERCEPTUAL_TARGET.target)
+    expect(scores[scores.length - 1]).toBeLessThan(DEFAULT_PERCEPTUAL_TARGET.target)
+    for (let i = 1; i < scores.length; i++) {
+      expect(scores[i]).toBeLessThan(scores[i - 1])
+    }
+  })
+})
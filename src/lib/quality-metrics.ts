@@ -0,0 +1,215 @@
+/**
+ * Full-reference quality metrics between a rendered source and its encoded
+ * output: SSIM, multi-scale SSIM and PSNR.
+ *
+ * Both images are composited onto the same background before comparing:
+ * black by default, so whatever an encoder leaves under fully transparent
+ * pixels doesn't count, or the colour a format without alpha was
+ * flattened onto, so the flattening itself isn't scored as loss.
+ * SSIM runs on luma with 8×8 windows every 4 pixels - close to the
+ * Gaussian-window reference numbers at a fraction of the cost.
+ */
+
+export interface QualityMetrics {
+  ssim: number     // 0-1, 1 = identical
+  msSsim: number   // 0-1, multi-scale SSIM
+  psnr: number     // dB, capped at MAX_PSNR for identical images
+}
+
+/** Opaque RGB (0-255) that transparency is composited onto */
+export type Background = [number, number, number]
+
+interface Plane {
+  data: Float32Array
+  width: number
+  height: number
+}
+
+/**
+ * A reference image prepared once and compared against many encodes
+ */
+export interface MetricsReference {
+  width: number
+  height: number
+  background: Background
+  rgb: Float32Array   // composited onto the background, 3 values per pixel
+  pyramid: Plane[]    // luma at each MS-SSIM scale
+}
+
+const WINDOW = 8
+const STRIDE = 4
+
+// Stabilising constants for the 8-bit range: (0.01·255)², (0.03·255)²
+const C1 = (0.01 * 255) ** 2
+const C2 = (0.03 * 255) ** 2
+
+// Scale weights from Wang, Simoncelli & Bovik (2003)
+const MS_SSIM_WEIGHTS = [0.0448, 0.2856, 0.3001, 0.2363, 0.1333]
+
+export const MAX_PSNR = 100
+
+const BLACK: Background = [0, 0, 0]
+
+function composite(imageData: ImageData, background: Background): { rgb: Float32Array; luma: Plane } {
+  const { data, width, height } = imageData
+  const rgb = new Float32Array(width * height * 3)
+  const luma = new Float32Array(width * height)
+  const [backgroundR, backgroundG, backgroundB] = background
+
+  for (let i = 0, p = 0; p < luma.length; i += 4, p++) {
+    const alpha = data[i + 3] / 255
+    const r = data[i] * alpha + backgroundR * (1 - alpha)
+    const g = data[i + 1] * alpha + backgroundG * (1 - alpha)
+    const b = data[i + 2] * alpha + backgroundB * (1 - alpha)
+    rgb[p * 3] = r
+    rgb[p * 3 + 1] = g
+    rgb[p * 3 + 2] = b
+    luma[p] = 0.299 * r + 0.587 * g + 0.114 * b
+  }
+
+  return { rgb, luma: { data: luma, width, height } }
+}
+
+/**
+ * Halves a plane with a 2×2 box filter (odd edges are dropped)
+ */
+function downsample(plane: Plane): Plane {
+  const width = Math.floor(plane.width / 2)
+  const height = Math.floor(plane.height / 2)
+  const data = new Float32Array(width * height)
+
+  for (let y = 0; y < height; y++) {
+    const top = y * 2 * plane.width
+    const bottom = top + plane.width
+    for (let x = 0; x < width; x++) {
+      const sx = x * 2
+      data[y * width + x] =
+        (plane.data[top + sx] + plane.data[top + sx + 1] + plane.data[bottom + sx] + plane.data[bottom + sx + 1]) / 4
+    }
+  }
+
+  return { data, width, height }
+}
+
+function buildPyramid(luma: Plane): Plane[] {
+  const pyramid = [luma]
+  while (pyramid.length < MS_SSIM_WEIGHTS.length) {
+    const last = pyramid[pyramid.length - 1]
+    if (Math.min(last.width, last.height) < WINDOW * 2) break
+    pyramid.push(downsample(last))
+  }
+  return pyramid
+}
+
+/**
+ * Window origins every STRIDE pixels, always including the last one so
+ * the right/bottom edges are covered
+ */
+function windowOrigins(size: number, window: number): number[] {
+  const last = size - window
+  const origins: number[] = []
+  for (let origin = 0; origin < last; origin += STRIDE) origins.push(origin)
+  origins.push(last)
+  return origins
+}
+
+/**
+ * Mean SSIM and mean contrast-structure term over all windows
+ */
+function compareLuma(reference: Plane, distorted: Plane): { ssim: number; cs: number } {
+  const { width } = reference
+  const window = Math.min(WINDOW, reference.width, reference.height)
+  const count = window * window
+  let ssimSum = 0
+  let csSum = 0
+  let windows = 0
+
+  for (const top of windowOrigins(reference.height, window)) {
+    for (const left of windowOrigins(reference.width, window)) {
+      let sumX = 0
+      let sumY = 0
+      let sumXX = 0
+      let sumYY = 0
+      let sumXY = 0
+
+      for (let y = top; y < top + window; y++) {
+        for (let i = y * width + left, end = i + window; i < end; i++) {
+          const a = reference.data[i]
+          const b = distorted.data[i]
+          sumX += a
+          sumY += b
+          sumXX += a * a
+          sumYY += b * b
+          sumXY += a * b
+        }
+      }
+
+      const meanX = sumX / count
+      const meanY = sumY / count
+      const varX = Math.max(0, sumXX / count - meanX * meanX)
+      const varY = Math.max(0, sumYY / count - meanY * meanY)
+      const covariance = sumXY / count - meanX * meanY
+
+      const luminance = (2 * meanX * meanY + C1) / (meanX * meanX + meanY * meanY + C1)
+      const cs = (2 * covariance + C2) / (varX + varY + C2)
+      ssimSum += luminance * cs
+      csSum += cs
+      windows++
+    }
+  }
+
+  return { ssim: ssimSum / windows, cs: csSum / windows }
+}
+
+function computePsnr(reference: Float32Array, distorted: Float32Array): number {
+  let squaredError = 0
+  for (let i = 0; i < reference.length; i++) {
+    const diff = reference[i] - distorted[i]
+    squaredError += diff * diff
+  }
+
+  const mse = squaredError / reference.length
+  if (mse === 0) return MAX_PSNR
+  return Math.min(MAX_PSNR, 10 * Math.log10((255 * 255) / mse))
+}
+
+export function prepareReference(imageData: ImageData, background: Background = BLACK): MetricsReference {
+  const { rgb, luma } = composite(imageData, background)
+  return { width: imageData.width, height: imageData.height, background, rgb, pyramid: buildPyramid(luma) }
+}
+
+/**
+ * Compares an encoded-and-decoded image against a prepared reference of
+ * the same size
+ */
+export function compareToReference(reference: MetricsReference, imageData: ImageData): QualityMetrics {
+  if (imageData.width !== reference.width || imageData.height !== reference.height) {
+    throw new Error('Quality metrics need images of the same size')
+  }
+
+  const { rgb, luma } = composite(imageData, reference.background)
+
+  // Weights renormalised when small images have fewer scales
+  const scales = reference.pyramid.length
+  const weights = MS_SSIM_WEIGHTS.slice(0, scales)
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0)
+
+  let distorted = luma
+  let ssim = 0
+  let msSsim = 1
+  for (let scale = 0; scale < scales; scale++) {
+    if (scale > 0) distorted = downsample(distorted)
+    const result = compareLuma(reference.pyramid[scale], distorted)
+    if (scale === 0) ssim = result.ssim
+
+    // Contrast-structure at every scale, full SSIM only at the coarsest
+    const term = scale === scales - 1 ? result.ssim : result.cs
+    msSsim *= Math.pow(Math.max(0, term), weights[scale] / weightSum)
+  }
+
+  return { ssim, msSsim, psnr: computePsnr(reference.rgb, rgb) }
+}
+
+export function measureQuality(reference: ImageData, distorted: ImageData, background: Background = BLACK): QualityMetrics {
+  return compareToReference(prepareReference(reference, background), distorted)
+}
@@ -0,0 +1,233 @@
+import type PicaStatic from 'pica'
+import type { Resampler } from '@/lib/converter'
+
+/**
+ * Resamplers used by the conversion pipeline. Everything here runs in the
+ * converter worker on ImageBitmap/OffscreenCanvas.
+ */
+
+// pica's typings only know DOM canvases, but it works with anything that
+// has getContext('2d') - these overloads describe how it's used here
+declare module 'pica' {
+  interface OffscreenPicaOptions extends Omit<PicaOptions, 'createCanvas'> {
+    createCanvas?(width: number, height: number): OffscreenCanvas
+  }
+  interface PicaStatic {
+    new(config?: OffscreenPicaOptions): Pica
+  }
+  interface Pica {
+    resize(from: ImageBitmap, to: OffscreenCanvas, options?: PicaResizeOptions): Promise<OffscreenCanvas>
+  }
+}
+
+// pica spawns its own helper workers and loads its WASM module once
+let picaInstance: Promise<PicaStatic.Pica> | null = null
+
+function getPica(): Promise<PicaStatic.Pica> {
+  if (!picaInstance) {
+    picaInstance = import('pica').then(({ default: Pica }) => new Pica({
+      features: ['js', 'wasm', 'ww'],
+      // No DOM in the worker - pica accepts OffscreenCanvas in its place
+      createCanvas: (width, height) => new OffscreenCanvas(width, height)
+    }))
+  }
+  return picaInstance
+}
+
+/**
+ * Browser-native resize - simulates CSS scaling behavior
+ *
+ * This approach keeps the full resolution and lets Canvas drawImage
+ * do the entire downscale in one step - exactly like when the browser
+ * renders a large image in a small CSS container.
+ *
+ * The browser's native algorithm (with imageSmoothingQuality: 'high')
+ * has access to all original pixels and produces the smoothest results.
+ */
+function browserNativeResize(
+  img: ImageBitmap,
+  targetWidth: number,
+  targetHeight: number
+): OffscreenCanvas {
+  const destCanvas = new OffscreenCanvas(targetWidth, targetHeight)
+
+  const ctx = destCanvas.getContext('2d')!
+  ctx.imageSmoothingEnabled = true
+  ctx.imageSmoothingQuality = 'high'
+
+  // Single-step resize from full resolution to target
+  // This is exactly what the browser does with CSS scaling
+  ctx.drawImage(img, 0, 0, targetWidth, targetHeight)
+
+  return destCanvas
+}
+
+/**
+ * Mitchell-Netravali cubic (B = C = 1/3), support [-2, 2]
+ */
+function mitchell(x: number): number {
+  const B = 1 / 3
+  const C = 1 / 3
+  x = Math.abs(x)
+
+  if (x < 1) {
+    return ((12 - 9 * B - 6 * C) * x * x * x + (-18 + 12 * B + 6 * C) * x * x + (6 - 2 * B)) / 6
+  }
+  if (x < 2) {
+    return ((-B - 6 * C) * x * x * x + (6 * B + 30 * C) * x * x + (-12 * B - 48 * C) * x + (8 * B + 24 * C)) / 6
+  }
+  return 0
+}
+
+interface FilterTaps {
+  start: Int32Array      // first source index per output index
+  count: Int32Array      // number of taps per output index
+  weights: Float32Array  // normalised weights, maxTaps per output index
+  maxTaps: number
+}
+
+/**
+ * Precomputes the 1D filter for one axis. When downscaling the kernel is
+ * stretched by the scale factor so every source pixel contributes.
+ */
+function buildTaps(srcSize: number, dstSize: number): FilterTaps {
+  const scale = dstSize / srcSize
+  const filterScale = Math.max(1, 1 / scale)
+  const support = 2 * filterScale
+  const maxTaps = Math.ceil(support) * 2 + 1
+
+  const start = new Int32Array(dstSize)
+  const count = new Int32Array(dstSize)
+  const weights = new Float32Array(dstSize * maxTaps)
+
+  for (let i = 0; i < dstSize; i++) {
+    const center = (i + 0.5) / scale
+    const first = Math.max(0, Math.floor(center - support))
+    const last = Math.min(srcSize - 1, Math.ceil(center + support))
+
+    let total = 0
+    let taps = 0
+    for (let j = first; j <= last && taps < maxTaps; j++, taps++) {
+      const weight = mitchell((j + 0.5 - center) / filterScale)
+      weights[i * maxTaps + taps] = weight
+      total += weight
+    }
+
+    // Normalise so flat areas keep their value at the image edges
+    if (total !== 0) {
+      for (let t = 0; t < taps; t++) weights[i * maxTaps + t] /= total
+    }
+    start[i] = first
+    count[i] = taps
+  }
+
+  return { start, count, weights, maxTaps }
+}
+
+/**
+ * Separable Mitchell-Netravali resize on premultiplied RGBA, so transparent
+ * pixels don't bleed their colour into the edges. pica ships no Mitchell
+ * filter, hence the in-house version.
+ */
+function mitchellResize(
+  img: ImageBitmap,
+  targetWidth: number,
+  targetHeight: number
+): OffscreenCanvas {
+  const srcWidth = img.width
+  const srcHeight = img.height
+
+  const source = new OffscreenCanvas(srcWidth, srcHeight)
+  const sourceCtx = source.getContext('2d')!
+  sourceCtx.drawImage(img, 0, 0)
+  const src = sourceCtx.getImageData(0, 0, srcWidth, srcHeight).data
+
+  const horizontal = buildTaps(srcWidth, targetWidth)
+  const vertical = buildTaps(srcHeight, targetHeight)
+
+  // Pass 1: horizontal, source rows → temp (targetWidth × srcHeight)
+  const temp = new Float32Array(targetWidth * srcHeight * 4)
+  for (let y = 0; y < srcHeight; y++) {
+    const rowOffset = y * srcWidth
+    for (let x = 0; x < targetWidth; x++) {
+      let r = 0, g = 0, b = 0, a = 0
+      const first = horizontal.start[x]
+      const base = x * horizontal.maxTaps
+
+      for (let t = 0; t < horizontal.count[x]; t++) {
+        const weight = horizontal.weights[base + t]
+        const idx = (rowOffset + first + t) * 4
+        const alpha = src[idx + 3]
+        const premultiplied = weight * alpha / 255
+        r += src[idx] * premultiplied
+        g += src[idx + 1] * premultiplied
+        b += src[idx + 2] * premultiplied
+        a += alpha * weight
+      }
+
+      const out = (y * targetWidth + x) * 4
+      temp[out] = r
+      temp[out + 1] = g
+      temp[out + 2] = b
+      temp[out + 3] = a
+    }
+  }
+
+  // Pass 2: vertical, temp columns → output, then un-premultiply
+  const output = new ImageData(targetWidth, targetHeight)
+  const dst = output.data
+  for (let y = 0; y < targetHeight; y++) {
+    const first = vertical.start[y]
+    const base = y * vertical.maxTaps
+
+    for (let x = 0; x < targetWidth; x++) {
+      let r = 0, g = 0, b = 0, a = 0
+
+      for (let t = 0; t < vertical.count[y]; t++) {
+        const weight = vertical.weights[base + t]
+        const idx = ((first + t) * targetWidth + x) * 4
+        r += temp[idx] * weight
+        g += temp[idx + 1] * weight
+        b += temp[idx + 2] * weight
+        a += temp[idx + 3] * weight
+      }
+
+      const out = (y * targetWidth + x) * 4
+      const alpha = Math.max(0, Math.min(255, a))
+      const unpremultiply = alpha > 0 ? 255 / alpha : 0
+      dst[out] = r * unpremultiply
+      dst[out + 1] = g * unpremultiply
+      dst[out + 2] = b * unpremultiply
+      dst[out + 3] = alpha
+    }
+  }
+
+  const destCanvas = new OffscreenCanvas(targetWidth, targetHeight)
+  destCanvas.getContext('2d')!.putImageData(output, 0, 0)
+  return destCanvas
+}
+
+/**
+ * Resizes the bitmap with the chosen resampler.
+ * Lanczos3 and box go through pica (worker + WASM accelerated).
+ */
+export async function resampleImage(
+  img: ImageBitmap,
+  targetWidth: number,
+  targetHeight: number,
+  resampler: Resampler
+): Promise<OffscreenCanvas> {
+  switch (resampler) {
+    case 'lanczos3':
+    case 'box': {
+      const destCanvas = new OffscreenCanvas(targetWidth, targetHeight)
+      const pica = await getPica()
+      await pica.resize(img, destCanvas, { filter: resampler })
+      return destCanvas
+    }
+    case 'mitchell':
+      return mitchellResize(img, targetWidth, targetHeight)
+    default:
+      return browserNativeResize(img, targetWidth, targetHeight)
+  }
+}
@@ -1,12 +1,32 @@
+import type { OutputFormat } from '@/lib/formats'
+import type { ConversionSettings, ConversionVariant, ImageFraming, QualityPreset, SettingsOverride } from '@/lib/converter'
+import type { PrivacyFinding } from '@/lib/metadata'
+import type { QualityMetrics } from '@/lib/quality-metrics'
+
 export interface ImageFile {
   id: string
   file: File
   name: string
   baseName: string
   frameNumber: number | null
+  frameDuration: number | null   // ms, for frames exploded from GIF/APNG
   originalSize: number
   convertedSize: number | null
   convertedBlob: Blob | null
+  outputFormat: OutputFormat | null
+  chosenQuality: number | null   // quality the output was encoded with
+  outputWidth: number | null
+  outputHeight: number | null
+  contentHash: string | null     // SHA-256 of the output, for {hash} in file names
+  preset: QualityPreset | null   // preset active when it was converted
+  withinTarget: boolean | null   // false when target size mode missed the budget
+  metrics: QualityMetrics | null   // SSIM / MS-SSIM / PSNR against the rendered source
+  meetsQualityFloor: boolean | null   // false when SSIM fell below the quality floor
+  framing: ImageFraming | null   // crop / focal point from the preview editor
+  settingsOverride: SettingsOverride | null   // replaces parts of the sequence / global settings
+  privacyFindings: PrivacyFinding[] | null   // sensitive metadata removed in privacy mode
+  sourceProfile: { name: string; kept: boolean } | null   // non-sRGB colour profile of the source
+  variants: ConversionVariant[] | null   // responsive set, smallest first
   status: 'pending' | 'converting' | 'done' | 'error'
   error?: string
 }
@@ -17,6 +37,8 @@ export interface ImageSequence {
   images: ImageFile[]
   isSequence: boolean
   missingFrames: number[]
+  settingsOverride: SettingsOverride | null   // applies to every image in the sequence
+  settings: ConversionSettings | null   // global settings it was converted with; overrides apply on top
   totalOriginalSize: number
   totalConvertedSize: number
 }
@@ -101,9 +123,24 @@ export function detectSequences(files: File[]): ImageSequence[] {
       name: file.name,
       baseName,
       frameNumber,
+      frameDuration: null,
       originalSize: file.size,
       convertedSize: null,
       convertedBlob: null,
+      outputFormat: null,
+      chosenQuality: null,
+      outputWidth: null,
+      outputHeight: null,
+      contentHash: null,
+      preset: null,
+      withinTarget: null,
+      metrics: null,
+      meetsQualityFloor: null,
+      framing: null,
+      settingsOverride: null,
+      privacyFindings: null,
+      sourceProfile: null,
+      variants: null,
       status: 'pending'
     }
   })
@@ -144,6 +181,8 @@ export function detectSequences(files: File[]): ImageSequence[] {
           images: group.sort((a, b) => (a.frameNumber || 0) - (b.frameNumber || 0)),
           isSequence: true,
           missingFrames,
+          settingsOverride: null,
+          settings: null,
           totalOriginalSize: group.reduce((sum, img) => sum + img.originalSize, 0),
           totalConvertedSize: 0
         })
@@ -157,6 +196,8 @@ export function detectSequences(files: File[]): ImageSequence[] {
           images: [img],
           isSequence: false,
           missingFrames: [],
+          settingsOverride: null,
+          settings: null,
           totalOriginalSize: img.originalSize,
           totalConvertedSize: 0
         })
@@ -171,3 +212,56 @@ export function detectSequences(files: File[]): ImageSequence[] {
     return a.baseName.localeCompare(b.baseName)
   })
 }
+
+/**
+ * Builds a sequence from frames decoded out of one animated file (GIF/APNG)
+ */
+export function createAnimationSequence(
+  source: File,
+  frames: { file: File; duration: number }[]
+): ImageSequence {
+  const baseName = source.name.replace(/\.[^/.]+$/, '')
+  
+  // The source size is spread over the frames so totals and reductions
+  // still compare against the original animated file
+  const sizePerFrame = source.size / frames.length
+  
+  const images: ImageFile[] = frames.map(({ file, duration }, index) => ({
+    id: `${file.name}-${index}-${Date.now()}`,
+    file,
+    name: file.name,
+    baseName,
+    frameNumber: index + 1,
+    frameDuration: duration,
+    originalSize: Math.round(sizePerFrame),
+    convertedSize: null,
+    convertedBlob: null,
+    outputFormat: null,
+    chosenQuality: null,
+    outputWidth: null,
+    outputHeight: null,
+    contentHash: null,
+    preset: null,
+    withinTarget: null,
+    metrics: null,
+    meetsQualityFloor: null,
+    framing: null,
+    settingsOverride: null,
+    privacyFindings: null,
+    sourceProfile: null,
+    variants: null,
+    status: 'pending'
+  }))
+  
+  return {
+    id: `anim-${baseName}-${Date.now()}`,
+    baseName,
+    images,
+    isSequence: true,
+    missingFrames: [],
+    settingsOverride: null,
+    settings: null,
+    totalOriginalSize: source.size,
+    totalConvertedSize: 0
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { buildSrcsetMarkup } from '@/lib/srcset'
+import { getOutputFiles } from '@/lib/filename-template'
+import type { ConversionVariant } from '@/lib/converter'
+import type { ImageFile } from '@/lib/sequence-detector'
+
+function createVariant(width: number): ConversionVariant {
+  return { blob: new Blob([String(width)]), quality: 80, width, height: width / 2, hash: `hash${width}` }
+}
+
+function createImage(id: string, name: string, widths: number[]): ImageFile {
+  const variants = widths.map(createVariant)
+  const largest = variants[variants.length - 1]
+  return {
+    id,
+    file: new File([], name),
+    name,
+    baseName: name.replace(/\.[^/.]+$/, ''),
+    frameNumber: null,
+    frameDuration: null,
+    originalSize: 0,
+    convertedSize: largest.blob.size,
+    convertedBlob: largest.blob,
+    outputFormat: 'webp',
+    chosenQuality: 80,
+    outputWidth: largest.width,
+    outputHeight: largest.height,
+    contentHash: largest.hash,
+    preset: null,
+    withinTarget: null,
+    metrics: null,
+    meetsQualityFloor: null,
+    framing: null,
+    settingsOverride: null,
+    privacyFindings: null,
+    sourceProfile: null,
+    variants,
+    status: 'done'
+  }
+}
+
+describe('srcset markup', () => {
+  it('links to the names the ZIP uses when a template makes them collide', () => {
+    const images = [createImage('a', 'one.png', [480, 960]), createImage('b', 'two.png', [480, 960])]
+    const files = getOutputFiles(images, 'photo-{width}', new Date(2026, 0, 2))
+    const zipNames = [...files.values()].flat().map(file => file.name)
+
+    expect(zipNames).toEqual(['photo-480.webp', 'photo-960.webp', 'photo-480-2.webp', 'photo-960-2.webp'])
+
+    const markup = buildSrcsetMarkup(images[1], files.get('b')!, '100vw', 'img')
+    expect(markup).toContain('srcset="photo-480-2.webp 480w, photo-960-2.webp 960w"')
+    expect(markup).toContain('src="photo-960-2.webp"')
+  })
+
+  it('uses the same {date} as the ZIP', () => {
+    const image = createImage('a', 'one.png', [480])
+    const files = getOutputFiles([image], '{name}-{date}', new Date(2026, 0, 2))
+
+    expect(buildSrcsetMarkup(image, files.get('a')!, '100vw', 'img')).toContain('one-2026-01-02-480w.webp 480w')
+  })
+
+  it('replaces characters file systems reject', () => {
+    const image = createImage('a', 'one.png', [480])
+    const files = getOutputFiles([image], 'a:b\u0007c', new Date(2026, 0, 2))
+
+    expect(files.get('a')![0].name).toBe('a_b_c-480w.webp')
+  })
+})
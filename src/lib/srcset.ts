@@ -0,0 +1,49 @@
+import { OUTPUT_FORMATS } from '@/lib/formats'
+import type { OutputFile } from '@/lib/filename-template'
+import type { ImageFile } from '@/lib/sequence-detector'
+
+export type SrcsetMarkup = 'img' | 'picture'
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+}
+
+/**
+ * `<img srcset sizes>` or `<picture>` markup for an image's responsive
+ * set, pointing at its files as named in the downloaded ZIP (see
+ * getOutputFiles). The largest variant is the fallback `src`. Returns null
+ * without variants.
+ */
+export function buildSrcsetMarkup(image: ImageFile, files: OutputFile[], sizes: string, markup: SrcsetMarkup): string | null {
+  const widths = files.filter(file => file.variant)
+  if (widths.length === 0 || !image.outputFormat) return null
+
+  const srcset = widths
+    .map(file => `${file.name} ${file.variant!.width}w`)
+    .join(', ')
+  const largest = widths[widths.length - 1]
+  const alt = image.name.replace(/\.[^/.]+$/, '')
+
+  const src = `src="${escapeAttribute(largest.name)}"`
+  const attributes = `width="${largest.variant!.width}" height="${largest.variant!.height}" alt="${escapeAttribute(alt)}" loading="lazy" decoding="async"`
+
+  if (markup === 'img') {
+    return [
+      `<img ${src}`,
+      `  srcset="${escapeAttribute(srcset)}"`,
+      `  sizes="${escapeAttribute(sizes)}"`,
+      `  ${attributes}>`
+    ].join('\n')
+  }
+
+  // The <source> carries the set; the <img> is the fallback
+  return [
+    '<picture>',
+    `  <source type="${OUTPUT_FORMATS[image.outputFormat].mimeType}"`,
+    `    srcset="${escapeAttribute(srcset)}"`,
+    `    sizes="${escapeAttribute(sizes)}">`,
+    `  <img ${src}`,
+    `    ${attributes}>`,
+    '</picture>'
+  ].join('\n')
+}
@@ -0,0 +1,153 @@
+import type { ToneAdjustments } from '@/lib/converter'
+
+/**
+ * Tone and colour adjustments: white balance, levels, gamma, contrast,
+ * saturation and vibrance. Everything up to contrast is a per-channel
+ * curve and is baked into three 256-entry lookup tables; saturation and
+ * vibrance need the whole pixel and run as a second pass.
+ *
+ * Fully transparent pixels are skipped by the histogram and the
+ * auto-levels analysis so hidden RGB can't skew them.
+ */
+
+// BT.601, same weights as the luminance filters
+const KR = 0.299
+const KG = 0.587
+const KB = 0.114
+
+// Share of pixels auto levels lets clip at each end
+const AUTO_LEVELS_CLIP = 0.001
+
+// Channel gain at temperature / tint ±100
+const WHITE_BALANCE_RANGE = 0.2
+
+export interface Histogram {
+  red: Uint32Array
+  green: Uint32Array
+  blue: Uint32Array
+  luma: Uint32Array
+  total: number        // pixels counted (alpha > 0)
+}
+
+export function computeHistogram(data: Uint8ClampedArray): Histogram {
+  const red = new Uint32Array(256)
+  const green = new Uint32Array(256)
+  const blue = new Uint32Array(256)
+  const luma = new Uint32Array(256)
+  let total = 0
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue
+    red[data[i]]++
+    green[data[i + 1]]++
+    blue[data[i + 2]]++
+    luma[Math.round(KR * data[i] + KG * data[i + 1] + KB * data[i + 2])]++
+    total++
+  }
+
+  return { red, green, blue, luma, total }
+}
+
+/**
+ * Black and white points that stretch the luma histogram to the full
+ * range, ignoring the darkest and brightest AUTO_LEVELS_CLIP of pixels
+ */
+export function analyzeLevels(histogram: Histogram): { blackPoint: number; whitePoint: number } {
+  if (histogram.total === 0) return { blackPoint: 0, whitePoint: 255 }
+
+  const clip = histogram.total * AUTO_LEVELS_CLIP
+  let blackPoint = 0
+  for (let count = 0; blackPoint < 254; blackPoint++) {
+    count += histogram.luma[blackPoint]
+    if (count > clip) break
+  }
+
+  let whitePoint = 255
+  for (let count = 0; whitePoint > blackPoint + 1; whitePoint--) {
+    count += histogram.luma[whitePoint]
+    if (count > clip) break
+  }
+
+  return { blackPoint, whitePoint }
+}
+
+export function isNeutralAdjustments(adjustments: ToneAdjustments): boolean {
+  return !adjustments.autoLevels &&
+    adjustments.blackPoint === 0 &&
+    adjustments.whitePoint === 255 &&
+    adjustments.gamma === 1 &&
+    adjustments.contrast === 0 &&
+    adjustments.saturation === 0 &&
+    adjustments.vibrance === 0 &&
+    adjustments.temperature === 0 &&
+    adjustments.tint === 0
+}
+
+/**
+ * Per-channel curve: white balance gain, levels, gamma, then an S-curve
+ * around mid grey for contrast
+ */
+function buildCurve(gain: number, blackPoint: number, whitePoint: number, gamma: number, contrast: number): Uint8ClampedArray {
+  const curve = new Uint8ClampedArray(256)
+  const range = Math.max(1, whitePoint - blackPoint)
+  // ±100 contrast = slope ×4 / ×0.25 at mid grey
+  const slope = Math.pow(2, contrast / 50)
+
+  for (let value = 0; value < 256; value++) {
+    let x = Math.min(1, Math.max(0, (value * gain - blackPoint) / range))
+    x = Math.pow(x, 1 / gamma)
+    if (contrast !== 0) {
+      // Symmetric power curve keeps 0, 0.5 and 1 in place
+      x = x < 0.5
+        ? 0.5 * Math.pow(2 * x, slope)
+        : 1 - 0.5 * Math.pow(2 * (1 - x), slope)
+    }
+    curve[value] = Math.round(x * 255)
+  }
+
+  return curve
+}
+
+/**
+ * Applies the adjustments to RGBA data in place
+ */
+export function applyToneAdjustments(data: Uint8ClampedArray, adjustments: ToneAdjustments): void {
+  if (isNeutralAdjustments(adjustments)) return
+
+  const { blackPoint, whitePoint } = adjustments.autoLevels
+    ? analyzeLevels(computeHistogram(data))
+    : adjustments
+
+  // Warm = more red, less blue; positive tint = magenta (less green)
+  const temperature = (adjustments.temperature / 100) * WHITE_BALANCE_RANGE
+  const tint = (adjustments.tint / 100) * WHITE_BALANCE_RANGE
+  const red = buildCurve(1 + temperature, blackPoint, whitePoint, adjustments.gamma, adjustments.contrast)
+  const green = buildCurve(1 - tint, blackPoint, whitePoint, adjustments.gamma, adjustments.contrast)
+  const blue = buildCurve(1 - temperature, blackPoint, whitePoint, adjustments.gamma, adjustments.contrast)
+
+  const saturation = 1 + adjustments.saturation / 100
+  const vibrance = adjustments.vibrance / 100
+  const colourPass = saturation !== 1 || vibrance !== 0
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue
+
+    let r = red[data[i]]
+    let g = green[data[i + 1]]
+    let b = blue[data[i + 2]]
+
+    if (colourPass) {
+      const y = KR * r + KG * g + KB * b
+      // Vibrance acts mostly on muted colours and leaves saturated ones alone
+      const current = (Math.max(r, g, b) - Math.min(r, g, b)) / 255
+      const factor = Math.max(0, saturation * (1 + vibrance * (1 - current)))
+      r = y + (r - y) * factor
+      g = y + (g - y) * factor
+      b = y + (b - y) * factor
+    }
+
+    data[i] = r
+    data[i + 1] = g
+    data[i + 2] = b
+  }
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { MAX_PSNR } from "@/lib/quality-metrics"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -18,3 +19,11 @@ export function getPercentageReduction(original: number, converted: number): num
   if (original === 0) return 0
   return Math.round((1 - converted / original) * 100)
 }
+
+export function formatSsim(ssim: number): string {
+  return ssim.toFixed(3)
+}
+
+export function formatPsnr(psnr: number): string {
+  return psnr >= MAX_PSNR ? '∞ dB' : `${psnr.toFixed(1)} dB`
+}
@@ -0,0 +1,259 @@
+import type { WatermarkAnchor, WatermarkAsset, WatermarkBlendMode, WatermarkSettings } from '@/lib/converter'
+import { hashContent } from '@/lib/filename-template'
+
+/**
+ * Watermark overlay. Settings carry only a small WatermarkAsset with an id;
+ * the image bytes stay on the main thread and are sent to each converter
+ * worker once (registerWatermarkAsset), not cloned into every job.
+ * loadWatermarkAsset runs on the main thread (it needs the DOM to
+ * rasterise SVG, which workers can't decode), drawWatermark in the worker.
+ *
+ * The current watermark and its image are kept in IndexedDB so the
+ * branding survives a reload.
+ */
+
+// SVGs are rasterised with this long edge - enough to stay crisp on 4K output
+const SVG_RASTER_SIZE = 2048
+
+const DATABASE_NAME = 'simple-webp-converter'
+const STORE_NAME = 'watermark'
+const STORED_KEY = 'current'
+
+const BLEND_OPERATIONS: Record<WatermarkBlendMode, GlobalCompositeOperation> = {
+  normal: 'source-over',
+  multiply: 'multiply',
+  screen: 'screen',
+  overlay: 'overlay',
+  softLight: 'soft-light'
+}
+
+// Horizontal / vertical position of each anchor: 0 = start, 0.5 = centre, 1 = end
+const ANCHOR_POSITIONS: Record<WatermarkAnchor, [number, number]> = {
+  topLeft: [0, 0],
+  top: [0.5, 0],
+  topRight: [1, 0],
+  left: [0, 0.5],
+  center: [0.5, 0.5],
+  right: [1, 0.5],
+  bottomLeft: [0, 1],
+  bottom: [0.5, 1],
+  bottomRight: [1, 1]
+}
+
+// Main thread: image bytes and display URLs by asset id
+const assetBlobs = new Map<string, Blob>()
+const assetUrls = new Map<string, string>()
+
+// Worker: decoded images by asset id, reused for every job
+const assetBitmaps = new Map<string, Promise<ImageBitmap>>()
+
+async function loadImage(url: string): Promise<HTMLImageElement> {
+  const img = new Image()
+  img.src = url
+  await img.decode()
+  return img
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to rasterise watermark')), 'image/png')
+  })
+}
+
+/**
+ * Turns a picked PNG/SVG (or any browser-decodable image) into a
+ * watermark asset. The id is a hash of the image, so the same logo always
+ * gets the same id.
+ */
+export async function loadWatermarkAsset(file: File): Promise<WatermarkAsset> {
+  const url = URL.createObjectURL(file)
+  let img: HTMLImageElement
+  try {
+    img = await loadImage(url)
+  } catch {
+    throw new Error('Failed to load watermark image')
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+
+  let blob: Blob = file
+  let width = img.naturalWidth
+  let height = img.naturalHeight
+
+  if (file.type === 'image/svg+xml') {
+    // SVGs without intrinsic size report 0 (or 150×300 in some browsers)
+    const aspect = width > 0 && height > 0 ? width / height : 1
+    width = aspect >= 1 ? SVG_RASTER_SIZE : Math.round(SVG_RASTER_SIZE * aspect)
+    height = aspect >= 1 ? Math.round(SVG_RASTER_SIZE / aspect) : SVG_RASTER_SIZE
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    canvas.getContext('2d')!.drawImage(img, 0, 0, width, height)
+    blob = await canvasToBlob(canvas)
+  }
+
+  const id = await hashContent(blob)
+  assetBlobs.set(id, blob)
+  return { id, name: file.name, width, height }
+}
+
+/**
+ * Image bytes of a loaded asset, to hand to a worker
+ */
+export function getWatermarkAssetBlob(id: string): Blob | undefined {
+  return assetBlobs.get(id)
+}
+
+/**
+ * Object URL of a loaded asset for thumbnails, created once per asset
+ */
+export function getWatermarkAssetUrl(id: string): string | undefined {
+  const blob = assetBlobs.get(id)
+  if (!blob) return undefined
+  if (!assetUrls.has(id)) assetUrls.set(id, URL.createObjectURL(blob))
+  return assetUrls.get(id)
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const database = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    database.close()
+  }
+}
+
+interface StoredWatermark {
+  watermark: WatermarkSettings
+  image: Blob | null
+}
+
+/**
+ * Remembers the watermark settings and image. Storage problems (e.g. a
+ * private window without IndexedDB) are ignored - it only costs the reload.
+ */
+export async function saveWatermark(watermark: WatermarkSettings): Promise<void> {
+  const stored: StoredWatermark = {
+    watermark,
+    image: watermark.image ? getWatermarkAssetBlob(watermark.image.id) ?? null : null
+  }
+  try {
+    await withStore('readwrite', store => store.put(stored, STORED_KEY))
+  } catch {
+    // Not persisted this time
+  }
+}
+
+/**
+ * Whether a stored image is still there and decodes - storage can be
+ * evicted or left half-written
+ */
+async function isUsableImage(image: Blob | null): Promise<boolean> {
+  if (!image || image.size === 0) return false
+  try {
+    const bitmap = await createImageBitmap(image)
+    bitmap.close()
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The watermark saved by saveWatermark, with its image loaded again, or
+ * null if there is none. An image that didn't survive is dropped, so jobs
+ * never reference an asset that isn't loaded.
+ */
+export async function restoreWatermark(): Promise<WatermarkSettings | null> {
+  let stored: StoredWatermark | undefined
+  try {
+    stored = await withStore<StoredWatermark | undefined>('readonly', store => store.get(STORED_KEY))
+  } catch {
+    return null
+  }
+  if (!stored) return null
+
+  const { watermark, image } = stored
+  if (watermark.image && await isUsableImage(image)) {
+    assetBlobs.set(watermark.image.id, image!)
+    return watermark
+  }
+  // The image didn't survive - keep the rest
+  return { ...watermark, image: null }
+}
+
+/**
+ * Makes an asset available to drawWatermark in this worker
+ */
+export function registerWatermarkAsset(id: string, buffer: ArrayBuffer): void {
+  if (!assetBitmaps.has(id)) {
+    assetBitmaps.set(id, createImageBitmap(new Blob([buffer])))
+  }
+}
+
+function getAssetBitmap(asset: WatermarkAsset): Promise<ImageBitmap> {
+  const bitmap = assetBitmaps.get(asset.id)
+  if (!bitmap) throw new Error('Watermark image is not loaded')
+  return bitmap
+}
+
+export function isWatermarkActive(watermark: WatermarkSettings): boolean {
+  if (!watermark.enabled || watermark.opacity <= 0) return false
+  return watermark.kind === 'image' ? watermark.image !== null : watermark.text.trim() !== ''
+}
+
+/**
+ * Composites the watermark onto the canvas in place. Size and margin are
+ * relative to the canvas width, so every output size gets the same look.
+ */
+export async function drawWatermark(canvas: OffscreenCanvas, watermark: WatermarkSettings): Promise<void> {
+  if (!isWatermarkActive(watermark)) return
+
+  const ctx = canvas.getContext('2d')!
+  const targetWidth = canvas.width * (watermark.scale / 100)
+  const margin = Math.round(canvas.width * (watermark.margin / 100))
+  const [anchorX, anchorY] = ANCHOR_POSITIONS[watermark.anchor]
+  const place = (width: number, height: number) => ({
+    x: margin + (canvas.width - width - margin * 2) * anchorX,
+    y: margin + (canvas.height - height - margin * 2) * anchorY
+  })
+
+  ctx.save()
+  ctx.globalAlpha = watermark.opacity / 100
+  ctx.globalCompositeOperation = BLEND_OPERATIONS[watermark.blendMode]
+  ctx.imageSmoothingQuality = 'high'
+
+  if (watermark.kind === 'image') {
+    const bitmap = await getAssetBitmap(watermark.image!)
+    const width = Math.max(1, Math.round(targetWidth))
+    const height = Math.max(1, Math.round(width * (bitmap.height / bitmap.width)))
+    const { x, y } = place(width, height)
+    ctx.drawImage(bitmap, Math.round(x), Math.round(y), width, height)
+  } else {
+    // Measure at a reference size, then scale the font to the target width
+    ctx.font = '600 100px system-ui, sans-serif'
+    const fontSize = Math.max(1, (100 * targetWidth) / ctx.measureText(watermark.text).width)
+    ctx.font = `600 ${fontSize}px system-ui, sans-serif`
+    const metrics = ctx.measureText(watermark.text)
+    const height = metrics.actualBoundingBoxAscent + metrics.actualBoundingBoxDescent
+    const { x, y } = place(metrics.width, height)
+    ctx.fillStyle = watermark.color
+    ctx.textBaseline = 'alphabetic'
+    ctx.fillText(watermark.text, x, y + metrics.actualBoundingBoxAscent)
+  }
+
+  ctx.restore()
+}
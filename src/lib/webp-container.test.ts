@@ -0,0 +1,304 @@
+import { describe, expect, it } from 'vitest'
+import { createVP8X, embedMetadata, muxAnimatedWebP, parseWebP, readChunks, writeChunks } from '@/lib/webp-container'
+import type { WebPChunk } from '@/lib/webp-container'
+
+/**
+ * Byte-level checks of the RIFF container: chunk order and sizes, the pad
+ * byte after odd-sized chunks, the VP8X/ANIM/ANMF header fields and where
+ * the metadata chunks go. The bitstreams are stubs - only their size
+ * headers are ever read.
+ */
+
+/**
+ * VP8L stub: 0x2f signature, width-1 and height-1 in 14 bits each, the
+ * alpha hint bit, then filler. Seven bytes by default so it needs padding.
+ */
+function createVP8L(width: number, height: number, hasAlpha = false, length = 7): WebPChunk {
+  const data = new Uint8Array(length).fill(0xaa)
+  const bits = (width - 1) | ((height - 1) << 14) | (hasAlpha ? 1 << 28 : 0)
+  data[0] = 0x2f
+  new DataView(data.buffer).setUint32(1, bits >>> 0, true)
+  return { fourcc: 'VP8L', data }
+}
+
+/**
+ * VP8 key frame stub: frame tag, start code, then 14-bit sizes whose top
+ * two bits are the upscaling hint
+ */
+function createVP8(width: number, height: number): WebPChunk {
+  const data = new Uint8Array(10)
+  data.set([0x10, 0x02, 0x00, 0x9d, 0x01, 0x2a], 0)
+  const view = new DataView(data.buffer)
+  view.setUint16(6, width | 0x4000, true)
+  view.setUint16(8, height | 0x8000, true)
+  return { fourcc: 'VP8 ', data }
+}
+
+function createWebP(...chunks: WebPChunk[]): Uint8Array {
+  return writeChunks(chunks)
+}
+
+function fourccs(bytes: Uint8Array): string[] {
+  return readChunks(bytes).map(chunk => chunk.fourcc)
+}
+
+function readUint24(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16)
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset, true)
+}
+
+function text(bytes: Uint8Array, offset: number, length = 4): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length))
+}
+
+describe('writeChunks', () => {
+  it('writes the RIFF header and pads odd chunks with a zero byte', () => {
+    const odd = { fourcc: 'EXIF', data: new Uint8Array([1, 2, 3]) }
+    const even = { fourcc: 'XMP ', data: new Uint8Array([4, 5]) }
+    const bytes = writeChunks([odd, even])
+
+    // 12 header + (8 + 3 + 1 pad) + (8 + 2)
+    expect(bytes.length).toBe(34)
+    expect(text(bytes, 0)).toBe('RIFF')
+    expect(readUint32(bytes, 4)).toBe(bytes.length - 8)
+    expect(text(bytes, 8)).toBe('WEBP')
+
+    expect(text(bytes, 12)).toBe('EXIF')
+    expect(readUint32(bytes, 16)).toBe(3)
+    expect([...bytes.subarray(20, 24)]).toEqual([1, 2, 3, 0])
+
+    expect(text(bytes, 24)).toBe('XMP ')
+    expect(readUint32(bytes, 28)).toBe(2)
+    expect([...bytes.subarray(32)]).toEqual([4, 5])
+  })
+
+  it('round-trips through readChunks', () => {
+    const chunks = [createVP8L(4, 3), { fourcc: 'EXIF', data: new Uint8Array([9]) }]
+    const read = readChunks(writeChunks(chunks))
+
+    expect(read.map(chunk => chunk.fourcc)).toEqual(['VP8L', 'EXIF'])
+    expect(read.map(chunk => [...chunk.data])).toEqual(chunks.map(chunk => [...chunk.data]))
+  })
+})
+
+describe('readChunks', () => {
+  it('rejects files that are not WebP', () => {
+    expect(() => readChunks(new TextEncoder().encode('RIFF\x04\0\0\0WAVE'))).toThrow('Not a WebP file')
+  })
+
+  it('rejects a chunk running past the RIFF size', () => {
+    const bytes = createWebP(createVP8L(4, 3))
+    new DataView(bytes.buffer).setUint32(16, 100, true)
+
+    expect(() => readChunks(bytes)).toThrow('Truncated VP8L chunk')
+  })
+
+  it('ignores trailing bytes after the RIFF size', () => {
+    const bytes = createWebP(createVP8L(4, 3))
+    const withTrailer = new Uint8Array(bytes.length + 12)
+    withTrailer.set(bytes)
+    withTrailer.set(new TextEncoder().encode('JUNK'), bytes.length)
+
+    expect(fourccs(withTrailer)).toEqual(['VP8L'])
+  })
+})
+
+describe('parseWebP', () => {
+  it('reads the size and alpha hint of a lossless still', () => {
+    const parsed = parseWebP(createWebP(createVP8L(300, 7000, true)))
+
+    expect(parsed).toMatchObject({ width: 300, height: 7000, hasAlpha: true })
+  })
+
+  it('reads the size of a lossy still without the scaling bits', () => {
+    const parsed = parseWebP(createWebP(createVP8(640, 480)))
+
+    expect(parsed).toMatchObject({ width: 640, height: 480, hasAlpha: false })
+  })
+
+  it('takes the canvas and alpha from VP8X when present', () => {
+    const image = createVP8(640, 480)
+    const vp8x = createVP8X(20000, 3, [image], true)
+    const parsed = parseWebP(createWebP(vp8x, { fourcc: 'ALPH', data: new Uint8Array(2) }, image))
+
+    expect(parsed).toMatchObject({ width: 20000, height: 3, hasAlpha: true })
+  })
+
+  it('fails without image data', () => {
+    expect(() => parseWebP(createWebP({ fourcc: 'EXIF', data: new Uint8Array(2) }))).toThrow('no image data')
+  })
+})
+
+describe('createVP8X', () => {
+  it.each([
+    ['ANMF', 0x02],
+    ['XMP ', 0x04],
+    ['EXIF', 0x08],
+    ['ICCP', 0x20]
+  ])('sets the flag for a %s chunk', (fourcc, flag) => {
+    const vp8x = createVP8X(1, 1, [{ fourcc, data: new Uint8Array(0) }], false)
+
+    expect(vp8x.data[0]).toBe(flag)
+  })
+
+  it('sets the alpha flag and stores the canvas size minus one as 24-bit values', () => {
+    const vp8x = createVP8X(0x123456, 2, [], true)
+
+    expect(vp8x.data.length).toBe(10)
+    expect(vp8x.data[0]).toBe(0x10)
+    expect([...vp8x.data.subarray(1, 4)]).toEqual([0, 0, 0])
+    expect([...vp8x.data.subarray(4, 7)]).toEqual([0x55, 0x34, 0x12])
+    expect([...vp8x.data.subarray(7, 10)]).toEqual([1, 0, 0])
+  })
+})
+
+describe('muxAnimatedWebP', () => {
+  const frames = [
+    { webp: createWebP(createVP8L(40, 30)), duration: 83.4 },
+    { webp: createWebP(createVP8L(50, 20, true, 8)), duration: 100 }
+  ]
+
+  it('writes VP8X, ANIM, then one ANMF per frame', () => {
+    const animated = muxAnimatedWebP(frames, { loopCount: 0, backgroundColor: '#ffffff' })
+
+    expect(fourccs(animated)).toEqual(['VP8X', 'ANIM', 'ANMF', 'ANMF'])
+    expect(readUint32(animated, 4)).toBe(animated.length - 8)
+  })
+
+  it('sizes the canvas to the largest frame and flags animation and alpha', () => {
+    const vp8x = readChunks(muxAnimatedWebP(frames, { loopCount: 0, backgroundColor: '#ffffff' }))[0]
+
+    expect(vp8x.data[0]).toBe(0x02 | 0x10)
+    expect(readUint24(vp8x.data, 4) + 1).toBe(50)
+    expect(readUint24(vp8x.data, 7) + 1).toBe(30)
+  })
+
+  it('leaves the alpha flag off when no frame has alpha', () => {
+    const opaque = [frames[0], frames[0]]
+    const vp8x = readChunks(muxAnimatedWebP(opaque, { loopCount: 0, backgroundColor: '#ffffff' }))[0]
+
+    expect(vp8x.data[0]).toBe(0x02)
+  })
+
+  it('stores the background as BGRA and the loop count as 16 bits', () => {
+    const anim = readChunks(muxAnimatedWebP(frames, { loopCount: 300, backgroundColor: '#11223380' }))[1]
+
+    expect([...anim.data]).toEqual([0x33, 0x22, 0x11, 0x80, 0x2c, 0x01])
+  })
+
+  it('defaults a missing background alpha to opaque', () => {
+    const anim = readChunks(muxAnimatedWebP(frames, { loopCount: 0, backgroundColor: '#102030' }))[1]
+
+    expect([...anim.data.subarray(0, 4)]).toEqual([0x30, 0x20, 0x10, 0xff])
+  })
+
+  it('writes each ANMF header and nests the padded frame bitstream', () => {
+    const [, , first, second] = readChunks(muxAnimatedWebP(frames, { loopCount: 0, backgroundColor: '#ffffff' }))
+
+    // 16-byte header + VP8L chunk (8 + 7 + 1 pad)
+    expect(first.data.length).toBe(32)
+    expect(readUint24(first.data, 0)).toBe(0)
+    expect(readUint24(first.data, 3)).toBe(0)
+    expect(readUint24(first.data, 6) + 1).toBe(40)
+    expect(readUint24(first.data, 9) + 1).toBe(30)
+    expect(readUint24(first.data, 12)).toBe(83)
+    // No blending, dispose to background
+    expect(first.data[15]).toBe(0x03)
+    expect(text(first.data, 16)).toBe('VP8L')
+    expect(readUint32(first.data, 20)).toBe(7)
+    expect(first.data[31]).toBe(0)
+
+    // Even-sized bitstream: no pad byte
+    expect(second.data.length).toBe(16 + 8 + 8)
+    expect(readUint24(second.data, 6) + 1).toBe(50)
+    expect(readUint24(second.data, 12)).toBe(100)
+  })
+
+  it('keeps only the image chunks of each frame', () => {
+    const image = createVP8L(10, 10)
+    const withMetadata = createWebP(
+      createVP8X(10, 10, [image], false),
+      { fourcc: 'ICCP', data: new Uint8Array(4) },
+      image,
+      { fourcc: 'EXIF', data: new Uint8Array(4) }
+    )
+    const anmf = readChunks(muxAnimatedWebP([{ webp: withMetadata, duration: 50 }], { loopCount: 0, backgroundColor: '#ffffff' }))[2]
+
+    expect(anmf.data.length).toBe(16 + 8 + 7 + 1)
+    expect(text(anmf.data, 16)).toBe('VP8L')
+  })
+
+  it('clamps frame durations to the 24-bit field', () => {
+    const clamped = [
+      { webp: frames[0].webp, duration: -5 },
+      { webp: frames[0].webp, duration: 0x1000000 }
+    ]
+    const [, , first, second] = readChunks(muxAnimatedWebP(clamped, { loopCount: 0, backgroundColor: '#ffffff' }))
+
+    expect(readUint24(first.data, 12)).toBe(0)
+    expect(readUint24(second.data, 12)).toBe(0xffffff)
+  })
+
+  it('fails without frames', () => {
+    expect(() => muxAnimatedWebP([], { loopCount: 0, backgroundColor: '#ffffff' })).toThrow('No frames')
+  })
+})
+
+describe('embedMetadata', () => {
+  const icc = new Uint8Array([1, 2, 3, 4])
+  const exif = new Uint8Array([5, 6, 7])
+  const xmp = new Uint8Array([8, 9, 10, 11, 12])
+
+  it('writes VP8X, ICCP, the image, EXIF, then XMP', () => {
+    const embedded = embedMetadata(createWebP(createVP8L(40, 30)), { exif, icc, xmp })
+
+    expect(fourccs(embedded)).toEqual(['VP8X', 'ICCP', 'VP8L', 'EXIF', 'XMP '])
+    expect(readUint32(embedded, 4)).toBe(embedded.length - 8)
+  })
+
+  it('flags each metadata chunk and keeps the canvas size', () => {
+    const vp8x = readChunks(embedMetadata(createWebP(createVP8L(40, 30)), { exif, icc, xmp }))[0]
+
+    expect(vp8x.data[0]).toBe(0x20 | 0x08 | 0x04)
+    expect(readUint24(vp8x.data, 4) + 1).toBe(40)
+    expect(readUint24(vp8x.data, 7) + 1).toBe(30)
+  })
+
+  it('carries over the alpha hint of a lossless still', () => {
+    const vp8x = readChunks(embedMetadata(createWebP(createVP8L(40, 30, true)), { exif: null, icc, xmp: null }))[0]
+
+    expect(vp8x.data[0]).toBe(0x20 | 0x10)
+  })
+
+  it('leaves out the chunks it is not given', () => {
+    const embedded = embedMetadata(createWebP(createVP8(64, 48)), { exif, icc: null, xmp: null })
+
+    expect(fourccs(embedded)).toEqual(['VP8X', 'VP8 ', 'EXIF'])
+    expect(readChunks(embedded)[0].data[0]).toBe(0x08)
+  })
+
+  it('pads odd-sized metadata chunks', () => {
+    const embedded = embedMetadata(createWebP(createVP8(64, 48)), { exif, icc: null, xmp })
+    // 12 header + VP8X (8 + 10) + VP8 (8 + 10) + EXIF (8 + 3 + 1) + XMP (8 + 5 + 1)
+    const exifOffset = 12 + 18 + 18
+
+    expect(embedded.length).toBe(exifOffset + 12 + 14)
+    expect(text(embedded, exifOffset)).toBe('EXIF')
+    expect([...embedded.subarray(exifOffset + 8, exifOffset + 12)]).toEqual([5, 6, 7, 0])
+    expect(text(embedded, exifOffset + 12)).toBe('XMP ')
+    expect(embedded[embedded.length - 1]).toBe(0)
+  })
+
+  it('replaces metadata already in the file', () => {
+    const once = embedMetadata(createWebP(createVP8L(40, 30)), { exif, icc, xmp })
+    const twice = embedMetadata(once, { exif: new Uint8Array([42]), icc: null, xmp: null })
+    const chunks = readChunks(twice)
+
+    expect(chunks.map(chunk => chunk.fourcc)).toEqual(['VP8X', 'VP8L', 'EXIF'])
+    expect([...chunks[2].data]).toEqual([42])
+    expect(chunks[0].data[0]).toBe(0x08)
+  })
+})
@@ -0,0 +1,260 @@
+/**
+ * WebP RIFF container helpers.
+ *
+ * A WebP file is 'RIFF' <size> 'WEBP' followed by chunks, each being a
+ * FourCC, a little-endian 32-bit payload size, the payload and a pad byte
+ * when the size is odd.
+ */
+
+export interface WebPChunk {
+  fourcc: string
+  data: Uint8Array
+}
+
+export interface ParsedWebP {
+  width: number
+  height: number
+  hasAlpha: boolean
+  chunks: WebPChunk[]
+}
+
+export interface AnimationFrame {
+  webp: Uint8Array     // a complete still WebP file
+  duration: number     // milliseconds
+}
+
+export interface AnimationOptions {
+  loopCount: number        // 0 = loop forever
+  backgroundColor: string  // '#rrggbb' or '#rrggbbaa'
+}
+
+export const DEFAULT_ANIMATION_OPTIONS: AnimationOptions = {
+  loopCount: 0,
+  backgroundColor: '#ffffff'
+}
+
+// VP8X feature flags
+const FLAG_ANIMATION = 0x02
+const FLAG_XMP = 0x04
+const FLAG_EXIF = 0x08
+const FLAG_ALPHA = 0x10
+const FLAG_ICC = 0x20
+
+// ANMF flags
+const ANMF_NO_BLEND = 0x02
+const ANMF_DISPOSE_BACKGROUND = 0x01
+
+// Chunks that make up the image data of a single frame
+const IMAGE_CHUNKS = new Set(['ALPH', 'VP8 ', 'VP8L'])
+
+function readFourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3])
+}
+
+function readUint24(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16)
+}
+
+function writeUint24(bytes: Uint8Array, offset: number, value: number) {
+  bytes[offset] = value & 0xff
+  bytes[offset + 1] = (value >> 8) & 0xff
+  bytes[offset + 2] = (value >> 16) & 0xff
+}
+
+/**
+ * Splits a WebP file into its chunks
+ */
+export function readChunks(bytes: Uint8Array): WebPChunk[] {
+  if (bytes.length < 12 || readFourCC(bytes, 0) !== 'RIFF' || readFourCC(bytes, 8) !== 'WEBP') {
+    throw new Error('Not a WebP file')
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const riffEnd = Math.min(bytes.length, 8 + view.getUint32(4, true))
+  const chunks: WebPChunk[] = []
+  let offset = 12
+
+  while (offset + 8 <= riffEnd) {
+    const fourcc = readFourCC(bytes, offset)
+    const size = view.getUint32(offset + 4, true)
+    const start = offset + 8
+    if (start + size > riffEnd) {
+      throw new Error(`Truncated ${fourcc.trim()} chunk`)
+    }
+
+    chunks.push({ fourcc, data: bytes.subarray(start, start + size) })
+    offset = start + size + (size & 1)
+  }
+
+  return chunks
+}
+
+/**
+ * Assembles chunks into a WebP file
+ */
+export function writeChunks(chunks: WebPChunk[]): Uint8Array<ArrayBuffer> {
+  const payloadSize = chunks.reduce((sum, chunk) => sum + 8 + chunk.data.length + (chunk.data.length & 1), 0)
+  const bytes = new Uint8Array(12 + payloadSize)
+  const view = new DataView(bytes.buffer)
+
+  const writeFourCC = (offset: number, fourcc: string) => {
+    for (let i = 0; i < 4; i++) bytes[offset + i] = fourcc.charCodeAt(i)
+  }
+
+  writeFourCC(0, 'RIFF')
+  view.setUint32(4, 4 + payloadSize, true)
+  writeFourCC(8, 'WEBP')
+
+  let offset = 12
+  for (const chunk of chunks) {
+    writeFourCC(offset, chunk.fourcc)
+    view.setUint32(offset + 4, chunk.data.length, true)
+    bytes.set(chunk.data, offset + 8)
+    // Padding byte is already zero
+    offset += 8 + chunk.data.length + (chunk.data.length & 1)
+  }
+
+  return bytes
+}
+
+/**
+ * Dimensions straight from a VP8 or VP8L bitstream
+ */
+function getBitstreamSize(chunk: WebPChunk): { width: number; height: number } {
+  const { data } = chunk
+
+  if (chunk.fourcc === 'VP8L') {
+    // 0x2f signature, then 14 bits width-1 and 14 bits height-1
+    const bits = data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24)
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1
+    }
+  }
+
+  // VP8 key frame: 3-byte frame tag, 3-byte start code, then 14-bit sizes
+  return {
+    width: (data[6] | (data[7] << 8)) & 0x3fff,
+    height: (data[8] | (data[9] << 8)) & 0x3fff
+  }
+}
+
+/**
+ * Reads the canvas size, alpha presence and chunks of a still WebP
+ */
+export function parseWebP(bytes: Uint8Array): ParsedWebP {
+  const chunks = readChunks(bytes)
+  const vp8x = chunks.find(chunk => chunk.fourcc === 'VP8X')
+  const bitstream = chunks.find(chunk => chunk.fourcc === 'VP8 ' || chunk.fourcc === 'VP8L')
+
+  if (!bitstream) {
+    throw new Error('WebP file has no image data')
+  }
+
+  if (vp8x) {
+    return {
+      width: readUint24(vp8x.data, 4) + 1,
+      height: readUint24(vp8x.data, 7) + 1,
+      hasAlpha: (vp8x.data[0] & FLAG_ALPHA) !== 0,
+      chunks
+    }
+  }
+
+  // Simple format: VP8L carries an alpha hint bit, lossy VP8 has no alpha
+  const hasAlpha = bitstream.fourcc === 'VP8L' && (bitstream.data[4] & 0x10) !== 0
+  return { ...getBitstreamSize(bitstream), hasAlpha, chunks }
+}
+
+/**
+ * Builds a VP8X chunk for the given canvas and the chunks that follow it
+ */
+export function createVP8X(width: number, height: number, chunks: WebPChunk[], hasAlpha: boolean): WebPChunk {
+  const data = new Uint8Array(10)
+  const has = (fourcc: string) => chunks.some(chunk => chunk.fourcc === fourcc)
+
+  data[0] =
+    (has('ANMF') ? FLAG_ANIMATION : 0) |
+    (has('XMP ') ? FLAG_XMP : 0) |
+    (has('EXIF') ? FLAG_EXIF : 0) |
+    (hasAlpha ? FLAG_ALPHA : 0) |
+    (has('ICCP') ? FLAG_ICC : 0)
+  writeUint24(data, 4, width - 1)
+  writeUint24(data, 7, height - 1)
+
+  return { fourcc: 'VP8X', data }
+}
+
+function parseBackgroundColor(color: string): [number, number, number, number] {
+  const hex = color.replace('#', '')
+  const channel = (index: number, fallback: number) => {
+    const value = parseInt(hex.slice(index * 2, index * 2 + 2), 16)
+    return isNaN(value) ? fallback : value
+  }
+  return [channel(0, 255), channel(1, 255), channel(2, 255), channel(3, 255)]
+}
+
+/**
+ * Muxes still WebP frames into one animated WebP (VP8X + ANIM + ANMF).
+ * Frames are placed at the top-left corner, drawn without blending and
+ * disposed to the background colour afterwards, so neither transparent
+ * areas nor the edges of a larger previous frame carry over.
+ */
+export function muxAnimatedWebP(frames: AnimationFrame[], options: AnimationOptions): Uint8Array<ArrayBuffer> {
+  if (frames.length === 0) {
+    throw new Error('No frames to animate')
+  }
+
+  const parsed = frames.map(frame => parseWebP(frame.webp))
+  const width = Math.max(...parsed.map(frame => frame.width))
+  const height = Math.max(...parsed.map(frame => frame.height))
+  const hasAlpha = parsed.some(frame => frame.hasAlpha)
+
+  // ANIM: background colour (stored as BGRA) + 16-bit loop count
+  const [r, g, b, a] = parseBackgroundColor(options.backgroundColor)
+  const anim = new Uint8Array(6)
+  anim.set([b, g, r, a], 0)
+  anim[4] = options.loopCount & 0xff
+  anim[5] = (options.loopCount >> 8) & 0xff
+
+  const anmfChunks: WebPChunk[] = parsed.map((frame, index) => {
+    const imageChunks = frame.chunks.filter(chunk => IMAGE_CHUNKS.has(chunk.fourcc))
+    const imageData = writeChunks(imageChunks).subarray(12)
+
+    // 16-byte header: x/2, y/2, width-1, height-1, duration (24 bit each), flags
+    const data = new Uint8Array(16 + imageData.length)
+    writeUint24(data, 0, 0)
+    writeUint24(data, 3, 0)
+    writeUint24(data, 6, frame.width - 1)
+    writeUint24(data, 9, frame.height - 1)
+    writeUint24(data, 12, Math.max(0, Math.min(0xffffff, Math.round(frames[index].duration))))
+    data[15] = ANMF_NO_BLEND | ANMF_DISPOSE_BACKGROUND
+    data.set(imageData, 16)
+
+    return { fourcc: 'ANMF', data }
+  })
+
+  const body: WebPChunk[] = [{ fourcc: 'ANIM', data: anim }, ...anmfChunks]
+  return writeChunks([createVP8X(width, height, body, hasAlpha), ...body])
+}
+
+/**
+ * Adds ICC, EXIF and XMP chunks to a still WebP, switching it to the
+ * extended (VP8X) format. Any metadata already in the file is replaced.
+ */
+export function embedMetadata(
+  webp: Uint8Array,
+  metadata: { exif: Uint8Array | null; icc: Uint8Array | null; xmp: Uint8Array | null }
+): Uint8Array<ArrayBuffer> {
+  const parsed = parseWebP(webp)
+  const imageChunks = parsed.chunks.filter(chunk => IMAGE_CHUNKS.has(chunk.fourcc))
+
+  // Chunk order from the spec: ICCP, image data, EXIF, XMP
+  const body: WebPChunk[] = [
+    ...(metadata.icc ? [{ fourcc: 'ICCP', data: metadata.icc }] : []),
+    ...imageChunks,
+    ...(metadata.exif ? [{ fourcc: 'EXIF', data: metadata.exif }] : []),
+    ...(metadata.xmp ? [{ fourcc: 'XMP ', data: metadata.xmp }] : [])
+  ]
+
+  return writeChunks([createVP8X(parsed.width, parsed.height, body, parsed.hasAlpha), ...body])
+}
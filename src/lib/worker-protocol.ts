@@ -0,0 +1,97 @@
+import type { ConversionSettings, ImageFraming } from '@/lib/converter'
+import type { OutputFormat } from '@/lib/formats'
+import type { PrivacyFinding } from '@/lib/metadata'
+import type { QualityMetrics } from '@/lib/quality-metrics'
+import type { AnimationKind } from '@/lib/animation-decoder'
+
+/**
+ * Message protocol between the main thread and the converter worker.
+ * Pixel data always travels as a transferred ArrayBuffer, never copied.
+ */
+
+export interface ConvertRequest {
+  type: 'convert'
+  id: number
+  buffer: ArrayBuffer
+  mimeType: string
+  settings: ConversionSettings
+  framing?: ImageFraming   // defaults to no crop, centred focus
+}
+
+export interface CapabilitiesRequest {
+  type: 'capabilities'
+  id: number
+}
+
+export interface DecodeAnimationRequest {
+  type: 'decodeAnimation'
+  id: number
+  kind: AnimationKind
+  buffer: ArrayBuffer
+}
+
+/**
+ * Watermark image bytes, sent once per worker before the first job that
+ * uses them. Jobs refer to it by assetId. No reply.
+ */
+export interface WatermarkAssetRequest {
+  type: 'watermarkAsset'
+  assetId: string
+  buffer: ArrayBuffer
+}
+
+export type ConverterRequest = ConvertRequest | CapabilitiesRequest | DecodeAnimationRequest | WatermarkAssetRequest
+
+export interface VariantPayload {
+  buffer: ArrayBuffer
+  quality: number
+  width: number
+  height: number
+  hash: string
+}
+
+export interface ConvertSuccess {
+  type: 'result'
+  id: number
+  buffer: ArrayBuffer
+  mimeType: string
+  quality: number
+  width: number
+  height: number
+  hash: string
+  withinTarget: boolean
+  metrics: QualityMetrics | null
+  meetsQualityFloor: boolean
+  privacyFindings: PrivacyFinding[] | null
+  sourceProfile: { name: string; kept: boolean } | null
+  variants: VariantPayload[] | null   // responsive set; shares mimeType
+}
+
+export interface ConvertFailure {
+  type: 'error'
+  id: number
+  message: string
+}
+
+export interface CapabilitiesResponse {
+  type: 'capabilities'
+  id: number
+  formats: OutputFormat[]
+}
+
+export interface AnimationFramePayload {
+  buffer: ArrayBuffer   // full frame as PNG
+  delay: number         // milliseconds
+}
+
+export interface DecodeAnimationResponse {
+  type: 'animation'
+  id: number
+  frames: AnimationFramePayload[]
+}
+
+export type ConverterResponse =
+  | ConvertSuccess
+  | ConvertFailure
+  | CapabilitiesResponse
+  | DecodeAnimationResponse
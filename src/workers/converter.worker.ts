@@ -0,0 +1,78 @@
+import { convertToWebP } from '@/lib/converter'
+import { detectEncodableFormats } from '@/lib/encoders'
+import { decodeAnimation } from '@/lib/animation-decoder'
+import { registerWatermarkAsset } from '@/lib/watermark'
+import type { AnimationFramePayload, ConverterRequest, ConverterResponse, VariantPayload } from '@/lib/worker-protocol'
+
+function reply(response: ConverterResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer })
+}
+
+self.addEventListener('message', async (event: MessageEvent<ConverterRequest>) => {
+  const request = event.data
+  
+  if (request.type === 'convert') {
+    try {
+      const source = new Blob([request.buffer], { type: request.mimeType })
+      const { blob, quality, width, height, hash, withinTarget, metrics, meetsQualityFloor, privacyFindings, sourceProfile, variants } = await convertToWebP(source, request.settings, request.framing)
+      const buffer = await blob.arrayBuffer()
+      const variantPayloads: VariantPayload[] | null = variants && await Promise.all(
+        variants.map(async variant => ({
+          buffer: await variant.blob.arrayBuffer(),
+          quality: variant.quality,
+          width: variant.width,
+          height: variant.height,
+          hash: variant.hash
+        }))
+      )
+      reply({
+        type: 'result',
+        id: request.id,
+        buffer,
+        mimeType: blob.type,
+        quality,
+        width,
+        height,
+        hash,
+        withinTarget,
+        metrics,
+        meetsQualityFloor,
+        privacyFindings,
+        sourceProfile,
+        variants: variantPayloads
+      }, [buffer, ...(variantPayloads ?? []).map(variant => variant.buffer)])
+    } catch (error) {
+      reply({
+        type: 'error',
+        id: request.id,
+        message: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  } else if (request.type === 'decodeAnimation') {
+    try {
+      const frames: AnimationFramePayload[] = []
+      let canvas: OffscreenCanvas | null = null
+      
+      // Each composited frame becomes a PNG so it converts like any still
+      for await (const frame of decodeAnimation(request.kind, new Uint8Array(request.buffer))) {
+        canvas ??= new OffscreenCanvas(frame.image.width, frame.image.height)
+        canvas.getContext('2d')!.putImageData(frame.image, 0, 0)
+        const png = await canvas.convertToBlob({ type: 'image/png' })
+        frames.push({ buffer: await png.arrayBuffer(), delay: frame.delay })
+      }
+      
+      reply({ type: 'animation', id: request.id, frames }, frames.map(frame => frame.buffer))
+    } catch (error) {
+      reply({
+        type: 'error',
+        id: request.id,
+        message: error instanceof Error ? error.message : 'Failed to decode animation'
+      })
+    }
+  } else if (request.type === 'watermarkAsset') {
+    registerWatermarkAsset(request.assetId, request.buffer)
+  } else if (request.type === 'capabilities') {
+    const formats = await detectEncodableFormats()
+    reply({ type: 'capabilities', id: request.id, formats })
+  }
+})
@@ -10,6 +10,13 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  // The jsquash codecs locate their .wasm via import.meta.url
+  optimizeDeps: {
+    exclude: ['@jsquash/jpeg', '@jsquash/oxipng', '@jsquash/webp'],
+  },
+  worker: {
+    format: 'es',
+  },
   build: {
     outDir: 'dist',
   },